@@ -1,85 +1,217 @@
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import { UploadSetup } from './components/UploadSetup';
 import { ScriptReview } from './components/ScriptReview';
 import { VideoGeneration } from './components/VideoGeneration';
 import { Download } from './components/Download';
-import { PDFService } from './services/pdfService';
-import type { WorkflowStage, Slide, ProjectState, TTSProvider } from './types';
+import { PasswordPrompt } from './components/PasswordPrompt';
+import { DeckImportService } from './services/deckImportService';
+import { BuildDetectionService } from './services/buildDetectionService';
+import { OCRService } from './services/ocrService';
+import { PDFOpenError } from './services/pdfService';
+import { PronunciationService } from './services/pronunciationService';
+import type {
+  WorkflowStage,
+  Slide,
+  BuildGroup,
+  ProjectState,
+  TTSProvider,
+  DeckImportOptions,
+  ImportProgress,
+  PromptTemplate,
+  PronunciationSettings,
+  DialogueSettings,
+  LLMSettings,
+  LocalizedVideo,
+  TargetLanguage,
+} from './types';
+import { DEFAULT_PROMPT_TEMPLATE } from './config/prompts';
+import { DEFAULT_LLM_SETTINGS } from './config/models';
+import { DEFAULT_DIALOGUE } from './config/ttsProviders';
 
 function App() {
   const [stage, setStage] = useState<WorkflowStage>('upload');
   const [project, setProject] = useState<ProjectState>({
-    pdfFile: null,
+    deckFiles: [],
     selectedVoiceId: '',
+    targetLanguages: [],
     ttsProvider: 'putertts',
-    selectedModel: '',
+    llm: DEFAULT_LLM_SETTINGS,
     slides: [],
-    finalVideoBlob: null,
+    buildGroups: [],
+    outline: '',
+    promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+    targetDuration: null,
+    pronunciation: PronunciationService.load(),
+    dialogue: DEFAULT_DIALOGUE,
+    videos: [],
     apiKeys: {
-      openRouter: '',
       lemonfox: '',
     },
   });
   const [isProcessing, setIsProcessing] = useState(false);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [passwordRequest, setPasswordRequest] = useState<{
+    fileName: string;
+    incorrect: boolean;
+    retry: (password: string) => void;
+  } | null>(null);
+  const importAbortRef = useRef<AbortController | null>(null);
 
   const handleUploadComplete = async (
-    file: File,
+    files: File[],
+    importOptions: DeckImportOptions,
     voiceId: string,
+    targetLanguages: TargetLanguage[],
     ttsProvider: TTSProvider,
-    selectedModel: string,
-    apiKeys: { openRouter: string; lemonfox: string }
+    llm: LLMSettings,
+    promptTemplate: PromptTemplate,
+    apiKeys: { lemonfox: string }
   ) => {
     setIsProcessing(true);
+    setImportProgress(null);
+    setPasswordRequest(null);
     setError(null);
 
+    const abortController = new AbortController();
+    importAbortRef.current = abortController;
+
     try {
-      // Extract slides from PDF
-      const slides = await PDFService.extractSlides(file);
-
-      setProject({
-        pdfFile: file,
-        selectedVoiceId: voiceId,
-        ttsProvider,
-        selectedModel,
-        slides,
-        finalVideoBlob: null,
-        apiKeys,
+      // Extract slides from the PDF, PowerPoint deck or slide images
+      const importedSlides = await DeckImportService.extractSlides(files, {
+        ...importOptions,
+        signal: abortController.signal,
+        onProgress: setImportProgress,
+      });
+
+      // Recognize text on scanned pages that have no text layer
+      const extractedSlides = await OCRService.recognizeSlides(importedSlides, {
+        signal: abortController.signal,
+        onProgress: setImportProgress,
+      }).catch((ocrError) => {
+        if (abortController.signal.aborted) {
+          DeckImportService.releaseSlides(importedSlides);
+          throw ocrError;
+        }
+        // OCR only adds context, so a failure should not block the import
+        console.warn('OCR failed, continuing without recognized text:', ocrError);
+        return importedSlides;
+      });
+
+      // Propose merging animation build pages; they start merged until rejected in review
+      const buildGroups = await BuildDetectionService.detectBuildGroups(extractedSlides, {
+        signal: abortController.signal,
+        onProgress: setImportProgress,
+      }).catch((detectionError) => {
+        DeckImportService.releaseSlides(extractedSlides);
+        throw detectionError;
+      });
+      const slides = BuildDetectionService.applyBuildGroups(extractedSlides, buildGroups);
+
+      if (abortController.signal.aborted) {
+        DeckImportService.releaseSlides(slides);
+        return;
+      }
+
+      // A password retry runs from an earlier render, so the previous deck
+      // is read from the state update rather than this closure
+      setProject((prev) => {
+        // Release the images of a previously imported deck
+        DeckImportService.releaseSlides(prev.slides);
+
+        return {
+          deckFiles: files,
+          selectedVoiceId: voiceId,
+          targetLanguages,
+          ttsProvider,
+          llm,
+          slides,
+          buildGroups,
+          outline: '',
+          promptTemplate,
+          targetDuration: null,
+          pronunciation: prev.pronunciation,
+          dialogue: prev.dialogue,
+          videos: [],
+          apiKeys,
+        };
       });
 
       setStage('review');
     } catch (err) {
-      console.error('PDF processing error:', err);
-      setError(err instanceof Error ? err.message : 'Failed to process PDF');
+      if (abortController.signal.aborted) {
+        console.log('Deck import cancelled');
+        return;
+      }
+      if (err instanceof PDFOpenError && err.needsPassword) {
+        setPasswordRequest({
+          fileName: files[0].name,
+          incorrect: err.failure === 'password-incorrect',
+          retry: (password) =>
+            handleUploadComplete(
+              files,
+              { ...importOptions, password },
+              voiceId,
+              targetLanguages,
+              ttsProvider,
+              llm,
+              promptTemplate,
+              apiKeys
+            ),
+        });
+        return;
+      }
+      console.error('Deck processing error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to process presentation');
     } finally {
+      importAbortRef.current = null;
       setIsProcessing(false);
+      setImportProgress(null);
     }
   };
 
-  const handleScriptReviewComplete = (slides: Slide[]) => {
-    setProject((prev) => ({ ...prev, slides }));
+  const handleCancelImport = () => {
+    importAbortRef.current?.abort();
+  };
+
+  const handleScriptReviewComplete = (
+    slides: Slide[],
+    buildGroups: BuildGroup[],
+    outline: string,
+    targetDuration: number | null,
+    pronunciation: PronunciationSettings,
+    dialogue: DialogueSettings
+  ) => {
+    setProject((prev) => ({ ...prev, slides, buildGroups, outline, targetDuration, pronunciation, dialogue }));
     setStage('generate');
   };
 
-  const handleVideoGenerationComplete = (videoBlob: Blob, slides: Slide[]) => {
+  const handleVideoGenerationComplete = (videos: LocalizedVideo[], slides: Slide[]) => {
     setProject((prev) => ({
       ...prev,
       slides,
-      finalVideoBlob: videoBlob,
+      videos,
     }));
     setStage('download');
   };
 
   const handleStartOver = () => {
+    DeckImportService.releaseSlides(project.slides);
     setProject({
-      pdfFile: null,
+      deckFiles: [],
       selectedVoiceId: '',
+      targetLanguages: [],
       ttsProvider: 'putertts',
-      selectedModel: '',
+      llm: DEFAULT_LLM_SETTINGS,
       slides: [],
-      finalVideoBlob: null,
+      buildGroups: [],
+      outline: '',
+      promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+      targetDuration: null,
+      pronunciation: PronunciationService.load(),
+      dialogue: DEFAULT_DIALOGUE,
+      videos: [],
       apiKeys: {
-        openRouter: '',
         lemonfox: '',
       },
     });
@@ -144,19 +276,54 @@ function App() {
 
         {isProcessing && (
           <div className="max-w-4xl mx-auto px-6 mb-6">
-            <div className="glass-card p-4 bg-blue-500/10 border-blue-500/30">
-              <p className="text-blue-400">Processing PDF... This may take a moment.</p>
+            <div className="glass-card p-4 bg-blue-500/10 border-blue-500/30 space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-blue-400">
+                  {importProgress?.message || 'Processing presentation... This may take a moment.'}
+                </p>
+                <button onClick={handleCancelImport} className="glass-button text-sm">
+                  ✖ Cancel
+                </button>
+              </div>
+              {importProgress && importProgress.total > 0 && (
+                <div className="w-full h-2 bg-glass-bg rounded-full overflow-hidden border border-glass-border">
+                  <div
+                    className="h-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all duration-300"
+                    style={{ width: `${Math.round((importProgress.current / importProgress.total) * 100)}%` }}
+                  />
+                </div>
+              )}
             </div>
           </div>
         )}
 
+        {passwordRequest && (
+          <div className="max-w-4xl mx-auto px-6 mb-6">
+            <PasswordPrompt
+              key={`${passwordRequest.fileName}-${passwordRequest.incorrect}`}
+              fileName={passwordRequest.fileName}
+              incorrect={passwordRequest.incorrect}
+              onSubmit={passwordRequest.retry}
+              onCancel={() => setPasswordRequest(null)}
+            />
+          </div>
+        )}
+
         {stage === 'upload' && <UploadSetup onComplete={handleUploadComplete} />}
 
         {stage === 'review' && (
           <ScriptReview
             slides={project.slides}
-            apiKey={project.apiKeys.openRouter}
-            selectedModel={project.selectedModel}
+            buildGroups={project.buildGroups}
+            outline={project.outline}
+            promptTemplate={project.promptTemplate}
+            targetLanguages={project.targetLanguages.map((target) => target.code)}
+            targetDuration={project.targetDuration}
+            pronunciation={project.pronunciation}
+            dialogue={project.dialogue}
+            ttsProvider={project.ttsProvider}
+            voiceId={project.selectedVoiceId}
+            llm={project.llm}
             onComplete={handleScriptReviewComplete}
             onBack={handleBackToUpload}
           />
@@ -166,6 +333,10 @@ function App() {
           <VideoGeneration
             slides={project.slides}
             voiceId={project.selectedVoiceId}
+            targetLanguages={project.targetLanguages}
+            sourceLanguage={project.promptTemplate.variables.language}
+            pronunciation={project.pronunciation}
+            dialogue={project.dialogue}
             ttsProvider={project.ttsProvider}
             apiKey={project.apiKeys.lemonfox}
             onComplete={handleVideoGenerationComplete}
@@ -173,9 +344,9 @@ function App() {
           />
         )}
 
-        {stage === 'download' && project.finalVideoBlob && (
+        {stage === 'download' && project.videos.length > 0 && (
           <Download
-            videoBlob={project.finalVideoBlob}
+            videos={project.videos}
             onStartOver={handleStartOver}
           />
         )}
@@ -0,0 +1,53 @@
+import React from 'react';
+import type { DialogueSettings, TTSVoice } from '../types';
+import { DIALOGUE_SPEAKERS } from '../utils/dialogue';
+
+interface DialogueEditorProps {
+  settings: DialogueSettings;
+  voices: TTSVoice[]; // voices in the narration language
+  onChange: (settings: DialogueSettings) => void;
+}
+
+export const DialogueEditor: React.FC<DialogueEditorProps> = ({ settings, voices, onChange }) => {
+  const handleVoiceChange = (speaker: string, voiceId: string) => {
+    onChange({ ...settings, voices: { ...settings.voices, [speaker]: voiceId } });
+  };
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-300">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+          />
+          🎙️ Write scripts as a two-person dialogue
+        </label>
+        <div className="flex flex-wrap gap-4">
+          {DIALOGUE_SPEAKERS.map((speaker) => (
+            <label key={speaker} className="flex items-center gap-2 text-sm text-gray-400">
+              {speaker}
+              <select
+                value={settings.voices[speaker] || ''}
+                onChange={(e) => handleVoiceChange(speaker, e.target.value)}
+                className="glass-input text-sm py-1"
+              >
+                <option value="">Slide voice</option>
+                {voices.map((voice) => (
+                  <option key={voice.id} value={voice.id}>
+                    {voice.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Lines starting with {DIALOGUE_SPEAKERS.map((speaker) => `${speaker}:`).join(' or ')} are read with that
+        speaker's voice, in any script. Translated videos read every line with the language's voice.
+      </p>
+    </div>
+  );
+};
@@ -1,15 +1,39 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { ChapterService } from '../services/chapterService';
+import { TranscriptService } from '../services/transcriptService';
+import type { LocalizedVideo } from '../types';
 
 interface DownloadProps {
-  videoBlob: Blob;
+  videos: LocalizedVideo[]; // one per narration language, source first
   onStartOver: () => void;
 }
 
-export const Download: React.FC<DownloadProps> = ({ videoBlob, onStartOver }) => {
+export const Download: React.FC<DownloadProps> = ({ videos, onStartOver }) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const { blob: videoBlob, slides, language } = videos[selectedIndex];
+  // Files are only tagged with the language when there is more than one
+  const fileSuffix = videos.length > 1 ? `-${language || 'source'}` : '';
   const [videoUrl, setVideoUrl] = useState<string>('');
   const [downloading, setDownloading] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
 
+  const chapters = useMemo(() => ChapterService.buildChapters(slides), [slides]);
+  const chaptersVtt = useMemo(
+    () => ChapterService.toWebVTT(chapters, ChapterService.getTotalDuration(slides)),
+    [chapters, slides]
+  );
+  // A data URL keeps the small chapters track free of object URL cleanup
+  const chaptersUrl = chapters.length > 0
+    ? `data:text/vtt;charset=utf-8,${encodeURIComponent(chaptersVtt)}`
+    : '';
+  const descriptionsVtt = useMemo(
+    () => (TranscriptService.hasDescriptions(slides) ? TranscriptService.toDescriptionsVTT(slides) : ''),
+    [slides]
+  );
+  const descriptionsUrl = descriptionsVtt
+    ? `data:text/vtt;charset=utf-8,${encodeURIComponent(descriptionsVtt)}`
+    : '';
+
   useEffect(() => {
     // Create object URL for video preview
     const url = URL.createObjectURL(videoBlob);
@@ -25,7 +49,7 @@ export const Download: React.FC<DownloadProps> = ({ videoBlob, onStartOver }) =>
 
     const link = document.createElement('a');
     link.href = videoUrl;
-    link.download = `deck-narration-${Date.now()}.${getFileExtension()}`;
+    link.download = `deck-narration-${Date.now()}${fileSuffix}.${getFileExtension()}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -33,6 +57,40 @@ export const Download: React.FC<DownloadProps> = ({ videoBlob, onStartOver }) =>
     setTimeout(() => setDownloading(false), 1000);
   };
 
+  const saveTextFile = (content: string, type: string, filename: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownloadChapters = (format: 'txt' | 'vtt') => {
+    const content = format === 'vtt' ? chaptersVtt : ChapterService.toChapterList(chapters);
+    saveTextFile(content, format === 'vtt' ? 'text/vtt' : 'text/plain', `deck-narration-chapters${fileSuffix}.${format}`);
+  };
+
+  const handleDownloadTranscript = (format: 'md' | 'txt' | 'vtt') => {
+    if (format === 'vtt') {
+      saveTextFile(descriptionsVtt, 'text/vtt', `deck-narration-descriptions${fileSuffix}.vtt`);
+    } else if (format === 'md') {
+      saveTextFile(TranscriptService.toMarkdown(slides), 'text/markdown', `deck-narration-transcript${fileSuffix}.md`);
+    } else {
+      saveTextFile(TranscriptService.toText(slides), 'text/plain', `deck-narration-transcript${fileSuffix}.txt`);
+    }
+  };
+
+  const handleSeek = (seconds: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = seconds;
+      videoRef.current.play();
+    }
+  };
+
   const getFileExtension = (): string => {
     return videoBlob.type.includes('mp4') ? 'mp4' : 'webm';
   };
@@ -56,7 +114,26 @@ export const Download: React.FC<DownloadProps> = ({ videoBlob, onStartOver }) =>
 
       {/* Video Preview */}
       <div className="glass-card p-6 space-y-4">
-        <h2 className="text-2xl font-semibold text-white mb-4">Preview</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-semibold text-white">Preview</h2>
+          {videos.length > 1 && (
+            <div className="flex gap-2">
+              {videos.map((video, index) => (
+                <button
+                  key={video.language || 'source'}
+                  onClick={() => setSelectedIndex(index)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                    selectedIndex === index
+                      ? 'bg-purple-500/30 text-white'
+                      : 'bg-glass-bg text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {video.languageName}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
         <div className="rounded-xl overflow-hidden border border-glass-border bg-black">
           <video
             ref={videoRef}
@@ -65,6 +142,12 @@ export const Download: React.FC<DownloadProps> = ({ videoBlob, onStartOver }) =>
             className="w-full h-auto"
             style={{ maxHeight: '70vh' }}
           >
+            {chaptersUrl && (
+              <track kind="chapters" src={chaptersUrl} srcLang={language || 'en'} label="Chapters" default />
+            )}
+            {descriptionsUrl && (
+              <track kind="descriptions" src={descriptionsUrl} srcLang={language || 'en'} label="Slide descriptions" />
+            )}
             Your browser does not support video playback.
           </video>
         </div>
@@ -88,6 +171,65 @@ export const Download: React.FC<DownloadProps> = ({ videoBlob, onStartOver }) =>
         </div>
       </div>
 
+      {/* Chapters */}
+      {chapters.length > 0 && (
+        <div className="glass-card p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-semibold text-white">Chapters</h2>
+            <div className="flex gap-2">
+              <button onClick={() => handleDownloadChapters('txt')} className="glass-button text-sm">
+                ⬇️ Chapter List (.txt)
+              </button>
+              <button onClick={() => handleDownloadChapters('vtt')} className="glass-button text-sm">
+                ⬇️ WebVTT (.vtt)
+              </button>
+            </div>
+          </div>
+          <ul className="space-y-2">
+            {chapters.map((chapter) => (
+              <li key={chapter.slideId}>
+                <button
+                  onClick={() => handleSeek(chapter.startTime)}
+                  className="flex gap-4 text-left text-gray-300 hover:text-white transition-colors"
+                >
+                  <span className="font-mono text-purple-400 w-16">
+                    {ChapterService.formatTimestamp(chapter.startTime)}
+                  </span>
+                  <span>{chapter.title}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-gray-400">
+            Paste the chapter list into a video description, or load the WebVTT file as a chapters track
+          </p>
+        </div>
+      )}
+
+      {/* Transcript */}
+      <div className="glass-card p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-semibold text-white">Transcript</h2>
+          <div className="flex gap-2">
+            <button onClick={() => handleDownloadTranscript('md')} className="glass-button text-sm">
+              ⬇️ Transcript (.md)
+            </button>
+            <button onClick={() => handleDownloadTranscript('txt')} className="glass-button text-sm">
+              ⬇️ Plain Text (.txt)
+            </button>
+            {descriptionsVtt && (
+              <button onClick={() => handleDownloadTranscript('vtt')} className="glass-button text-sm">
+                ⬇️ Descriptions (.vtt)
+              </button>
+            )}
+          </div>
+        </div>
+        <p className="text-xs text-gray-400">
+          The Markdown transcript includes each slide's title, description and key points; the descriptions
+          track gives screen-reader users the slide alt text as the video plays
+        </p>
+      </div>
+
       {/* Actions */}
       <div className="grid md:grid-cols-2 gap-4">
         <button
@@ -100,7 +242,7 @@ export const Download: React.FC<DownloadProps> = ({ videoBlob, onStartOver }) =>
               <span className="animate-pulse">⬇️ Downloading...</span>
             </>
           ) : (
-            <>⬇️ Download Video</>
+            <>⬇️ Download {videos.length > 1 ? `${videos[selectedIndex].languageName} ` : ''}Video</>
           )}
         </button>
 
@@ -0,0 +1,83 @@
+import React from 'react';
+import type { SpeechRate } from '../types';
+import { ChapterService } from '../services/chapterService';
+
+interface PacingPanelProps {
+  targetDuration: number | null; // seconds
+  projectedDuration: number; // seconds
+  speechRate: SpeechRate;
+  offBudgetCount: number | null; // null without a target length
+  disabled: boolean;
+  onTargetDurationChange: (seconds: number | null) => void;
+  onFitAll: () => void;
+}
+
+export const PacingPanel: React.FC<PacingPanelProps> = ({
+  targetDuration,
+  projectedDuration,
+  speechRate,
+  offBudgetCount,
+  disabled,
+  onTargetDurationChange,
+  onFitAll,
+}) => {
+  const handleMinutesChange = (minutes: string) => {
+    const seconds = Math.round(Number(minutes) * 60);
+    onTargetDurationChange(seconds > 0 ? seconds : null);
+  };
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-400">Target length (minutes)</label>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={targetDuration ? targetDuration / 60 : ''}
+            onChange={(e) => handleMinutesChange(e.target.value)}
+            placeholder="None"
+            className="glass-input w-24 py-2"
+          />
+        </div>
+        <div className="text-sm text-gray-300">
+          Projected length{' '}
+          <span
+            className={`font-medium ${
+              targetDuration && projectedDuration > targetDuration ? 'text-yellow-400' : 'text-white'
+            }`}
+          >
+            {ChapterService.formatTimestamp(projectedDuration)}
+          </span>
+          {targetDuration && <> of {ChapterService.formatTimestamp(targetDuration)}</>}
+          <span className="text-gray-500">
+            {' '}• {Math.round(speechRate.wordsPerSecond * 60)} words/min
+            {speechRate.calibrated ? ' measured for this voice' : ' (default until this voice is measured)'}
+          </span>
+        </div>
+        {offBudgetCount !== null && (
+          <button
+            onClick={onFitAll}
+            disabled={disabled || offBudgetCount === 0}
+            className="glass-button text-sm disabled:opacity-50"
+          >
+            ✂️ Fit {offBudgetCount} {offBudgetCount === 1 ? 'Script' : 'Scripts'} to Budget
+          </button>
+        )}
+      </div>
+      {targetDuration && (
+        <div className="w-full h-2 bg-glass-bg rounded-full overflow-hidden border border-glass-border">
+          <div
+            className={`h-full transition-all duration-300 ${
+              projectedDuration > targetDuration
+                ? 'bg-yellow-500'
+                : 'bg-gradient-to-r from-purple-500 to-pink-500'
+            }`}
+            style={{ width: `${Math.min(100, (projectedDuration / targetDuration) * 100)}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+
+interface PasswordPromptProps {
+  fileName: string;
+  incorrect: boolean;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+export const PasswordPrompt: React.FC<PasswordPromptProps> = ({
+  fileName,
+  incorrect,
+  onSubmit,
+  onCancel,
+}) => {
+  const [password, setPassword] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password) {
+      onSubmit(password);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="glass-card p-6 bg-yellow-500/10 border-yellow-500/30 space-y-4"
+    >
+      <div className="flex items-start gap-3">
+        <span className="text-2xl">🔐</span>
+        <div className="flex-1">
+          <h3 className="text-lg font-semibold text-yellow-400">Password Required</h3>
+          <p className="text-sm text-gray-300">
+            <span className="font-medium">{fileName}</span> is password-protected.
+            The password is only used to open the file in your browser.
+          </p>
+        </div>
+      </div>
+
+      <input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="PDF password"
+        className="glass-input"
+        autoFocus
+      />
+
+      {incorrect && (
+        <p className="text-red-400 text-sm">Incorrect password. Please try again.</p>
+      )}
+
+      <div className="flex justify-end gap-4">
+        <button type="button" onClick={onCancel} className="glass-button">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!password}
+          className="glass-button-primary disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          🔓 Unlock
+        </button>
+      </div>
+    </form>
+  );
+};
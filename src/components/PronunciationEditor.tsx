@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import type { PronunciationEntry, PronunciationSettings } from '../types';
+import { PronunciationService } from '../services/pronunciationService';
+
+interface PronunciationEditorProps {
+  settings: PronunciationSettings;
+  onChange: (settings: PronunciationSettings) => void;
+}
+
+export const PronunciationEditor: React.FC<PronunciationEditorProps> = ({ settings, onChange }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const updateEntry = (id: string, changes: Partial<PronunciationEntry>) => {
+    onChange({
+      ...settings,
+      entries: settings.entries.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry)),
+    });
+  };
+
+  const addEntry = () => {
+    onChange({ ...settings, entries: [...settings.entries, PronunciationService.createEntry()] });
+    setExpanded(true);
+  };
+
+  const removeEntry = (id: string) => {
+    onChange({ ...settings, entries: settings.entries.filter((entry) => entry.id !== id) });
+  };
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setExpanded((prev) => !prev)}
+          className="text-left text-sm font-medium text-gray-300 hover:text-white"
+        >
+          {expanded ? '▾' : '▸'} Pronunciation
+          <span className="ml-2 text-gray-500 font-normal">
+            {settings.entries.length > 0
+              ? `${settings.entries.length} ${settings.entries.length === 1 ? 'term' : 'terms'} • `
+              : ''}
+            Changes what the voice reads, not the script or transcript
+          </span>
+        </button>
+        <button onClick={addEntry} className="glass-button text-sm">
+          ➕ Add Term
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="space-y-3">
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={settings.normalizeNumbers}
+              onChange={(e) => onChange({ ...settings, normalizeNumbers: e.target.checked })}
+            />
+            Read numbers, dates, times and amounts as words (English scripts)
+          </label>
+
+          {settings.entries.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              Add product names, acronyms or people the voices get wrong, with how they should sound.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {settings.entries.map((entry) => (
+                <div key={entry.id} className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="text"
+                    value={entry.term}
+                    onChange={(e) => updateEntry(entry.id, { term: e.target.value })}
+                    placeholder="Term, e.g. SQL"
+                    className="glass-input text-sm flex-1 min-w-32"
+                  />
+                  <span className="text-gray-500">→</span>
+                  <input
+                    type="text"
+                    value={entry.spoken}
+                    onChange={(e) => updateEntry(entry.id, { spoken: e.target.value })}
+                    placeholder="Spoken as, e.g. sequel"
+                    className="glass-input text-sm flex-1 min-w-32"
+                  />
+                  <input
+                    type="text"
+                    value={entry.phoneme || ''}
+                    onChange={(e) => updateEntry(entry.id, { phoneme: e.target.value || undefined })}
+                    placeholder="IPA (optional)"
+                    title="Used by voices that accept phonemes; others read the spoken form"
+                    className="glass-input text-sm w-36"
+                  />
+                  <label className="flex items-center gap-1 text-xs text-gray-400">
+                    <input
+                      type="checkbox"
+                      checked={entry.wholeWord}
+                      onChange={(e) => updateEntry(entry.id, { wholeWord: e.target.checked })}
+                    />
+                    Whole word
+                  </label>
+                  <label className="flex items-center gap-1 text-xs text-gray-400">
+                    <input
+                      type="checkbox"
+                      checked={entry.matchCase}
+                      onChange={(e) => updateEntry(entry.id, { matchCase: e.target.checked })}
+                    />
+                    Match case
+                  </label>
+                  <button
+                    onClick={() => removeEntry(entry.id)}
+                    className="glass-button text-sm"
+                    title="Remove term"
+                  >
+                    ✖
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,310 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type {
+  APIError,
+  LLMSettings,
+  ModelPricing,
+  PromptTemplate,
+  ScriptContext,
+  Slide,
+  SlideAnalysis,
+  TokenUsage,
+} from '../types';
+import { ScriptService } from '../services/scriptService';
+import { GenerationScheduler } from '../services/generationScheduler';
+import { ModelCatalogService } from '../services/modelCatalogService';
+import { API_CONFIG } from '../config/api';
+import { getLLMProvider } from '../config/models';
+import { appendSentence, splitSentences } from '../utils/sentences';
+import { countSpokenWords } from '../utils/speechMarkup';
+
+interface Candidate {
+  script: string;
+  analysis?: SlideAnalysis;
+  loading: boolean;
+  error: string;
+}
+
+const EMPTY_CANDIDATE: Candidate = { script: '', loading: false, error: '' };
+
+interface ScriptComparisonProps {
+  slide: Slide;
+  context: ScriptContext;
+  promptTemplate: PromptTemplate;
+  llm: LLMSettings;
+  wordsPerSecond: number;
+  onUsage: (usage: TokenUsage) => void;
+  onApply: (script: string, analysis?: SlideAnalysis) => void;
+  onClose: () => void;
+}
+
+export const ScriptComparison: React.FC<ScriptComparisonProps> = ({
+  slide,
+  context,
+  promptTemplate,
+  llm,
+  wordsPerSecond,
+  onUsage,
+  onApply,
+  onClose,
+}) => {
+  const provider = getLLMProvider(llm.provider);
+  // The model the deck is written with is always on offer
+  const modelOptions = provider.models.some((m) => m.id === llm.model)
+    ? provider.models
+    : [{ id: llm.model, name: llm.model }, ...provider.models];
+
+  const [selectedModels, setSelectedModels] = useState<string[]>(() =>
+    [llm.model, ...modelOptions.map((m) => m.id).filter((id) => id !== llm.model)].slice(0, 2)
+  );
+  const [candidates, setCandidates] = useState<Record<string, Candidate>>({});
+  const [merged, setMerged] = useState('');
+  // Candidate sentences added to the merged script, as "model:index"
+  const [picked, setPicked] = useState<Set<string>>(new Set());
+  const [pricing, setPricing] = useState<Record<string, ModelPricing>>({});
+  // Controllers of the comparisons in flight, aborted on stop and unmount
+  const runsRef = useRef(new Set<AbortController>());
+  const maxModels = API_CONFIG.generation.compareModels;
+
+  useEffect(() => {
+    // Prices let each candidate report its cost like the main run
+    if (llm.provider === 'openrouter') {
+      ModelCatalogService.loadCatalog().then((catalog) =>
+        setPricing(
+          Object.fromEntries(
+            catalog.models.filter((m) => m.pricing).map((m) => [m.id, m.pricing as ModelPricing])
+          )
+        )
+      );
+    }
+    const runs = runsRef.current;
+    return () => runs.forEach((controller) => controller.abort());
+  }, [llm.provider]);
+
+  const getModelName = (id: string) => modelOptions.find((m) => m.id === id)?.name || id;
+
+  const updateCandidate = (model: string, changes: Partial<Candidate>) => {
+    setCandidates((prev) => ({
+      ...prev,
+      [model]: { ...(prev[model] || EMPTY_CANDIDATE), ...changes },
+    }));
+  };
+
+  const toggleModel = (id: string) => {
+    setSelectedModels((prev) =>
+      prev.includes(id)
+        ? prev.filter((m) => m !== id)
+        : prev.length < maxModels
+        ? [...prev, id]
+        : prev
+    );
+  };
+
+  const generateCandidate = async (model: string, signal: AbortSignal): Promise<boolean> => {
+    updateCandidate(model, { script: '', analysis: undefined, loading: true, error: '' });
+
+    try {
+      const service = new ScriptService({
+        ...llm,
+        model,
+        pricing: model === llm.model ? llm.pricing : pricing[model],
+      });
+      const analysis = await GenerationScheduler.withRetry(
+        () =>
+          service.generateScript(slide, {
+            context,
+            template: promptTemplate,
+            signal,
+            onToken: (text) => updateCandidate(model, { script: text }),
+            onUsage,
+          }),
+        signal
+      );
+      updateCandidate(model, { script: analysis.narration, analysis });
+      return true;
+    } catch (error) {
+      if (GenerationScheduler.isAbortError(error)) return false;
+      const errorMsg =
+        error instanceof Error ? error.message : (error as APIError)?.message || 'Failed to generate script';
+      updateCandidate(model, { error: errorMsg });
+      console.error(`Error generating ${model} candidate for ${slide.id}:`, error);
+      return false;
+    } finally {
+      updateCandidate(model, { loading: false });
+    }
+  };
+
+  const handleCompare = async () => {
+    const controller = new AbortController();
+    runsRef.current.add(controller);
+    setCandidates({});
+    setPicked(new Set());
+
+    try {
+      // One request per model, all at once; they go to different models
+      await GenerationScheduler.run(selectedModels, (model) => generateCandidate(model, controller.signal), {
+        concurrency: selectedModels.length,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      console.error(`Error comparing models for ${slide.id}:`, error);
+    } finally {
+      runsRef.current.delete(controller);
+    }
+  };
+
+  const handlePickSentence = (model: string, index: number, sentence: string) => {
+    setMerged((prev) => appendSentence(prev, sentence));
+    setPicked((prev) => new Set(prev).add(`${model}:${index}`));
+  };
+
+  const handleClearMerged = () => {
+    setMerged('');
+    setPicked(new Set());
+  };
+
+  const handleStop = () => {
+    runsRef.current.forEach((controller) => controller.abort());
+    runsRef.current.clear();
+  };
+
+  const formatStats = (script: string) => {
+    const words = countSpokenWords(script);
+    return `${words} words • ~${Math.round(words / wordsPerSecond)}s`;
+  };
+
+  const isGenerating = Object.values(candidates).some((c) => c.loading);
+  const comparedModels = selectedModels.filter((model) => candidates[model]);
+  // A picked sentence stays marked while it is still in the merged script
+  const mergedSentences = new Set(splitSentences(merged));
+
+  return (
+    <div className="p-4 rounded-lg bg-glass-bg border border-glass-border space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h4 className="text-md font-medium text-white">Compare Models</h4>
+          <p className="text-sm text-gray-400">
+            Pick up to {maxModels} models to write this slide, then use one script or click sentences to
+            merge them.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {isGenerating ? (
+            <button onClick={handleStop} className="glass-button text-sm">
+              ⏹ Stop
+            </button>
+          ) : (
+            <button
+              onClick={handleCompare}
+              disabled={selectedModels.length < 2}
+              className="glass-button-primary text-sm disabled:opacity-50"
+            >
+              ⚖️ Write {selectedModels.length} Candidates
+            </button>
+          )}
+          <button onClick={onClose} className="glass-button text-sm">
+            ✖ Close
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {modelOptions.map((model) => {
+          const selected = selectedModels.includes(model.id);
+          return (
+            <button
+              key={model.id}
+              onClick={() => toggleModel(model.id)}
+              disabled={isGenerating || (!selected && selectedModels.length >= maxModels)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-all disabled:opacity-50 ${
+                selected ? 'bg-purple-500/30 text-white' : 'bg-glass-bg text-gray-400 hover:text-white'
+              }`}
+            >
+              {model.name}
+            </button>
+          );
+        })}
+      </div>
+
+      {comparedModels.length > 0 && (
+        <div
+          className={`grid gap-4 ${comparedModels.length === 3 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}
+        >
+          {comparedModels.map((model) => {
+            const candidate = candidates[model];
+            return (
+              <div key={model} className="glass-card p-4 space-y-3 flex flex-col">
+                <div>
+                  <p className="text-sm font-medium text-white">{getModelName(model)}</p>
+                  <p className="text-xs text-gray-400">
+                    {candidate.loading ? 'Writing...' : formatStats(candidate.script)}
+                  </p>
+                </div>
+
+                {candidate.error ? (
+                  <p className="text-red-400 text-sm">{candidate.error}</p>
+                ) : (
+                  <div className="flex-1 text-sm leading-relaxed">
+                    {splitSentences(candidate.script).map((sentence, index) => (
+                      <button
+                        key={index}
+                        onClick={() => handlePickSentence(model, index, sentence)}
+                        disabled={candidate.loading}
+                        title="Add to merged script"
+                        className={`inline text-left rounded px-0.5 transition-colors hover:bg-purple-500/30 ${
+                          picked.has(`${model}:${index}`) && mergedSentences.has(sentence)
+                            ? 'text-purple-300'
+                            : 'text-gray-300'
+                        }`}
+                      >
+                        {sentence}{' '}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                <button
+                  onClick={() => onApply(candidate.script, candidate.analysis)}
+                  disabled={candidate.loading || !candidate.script.trim()}
+                  className="glass-button text-sm disabled:opacity-50"
+                >
+                  ✓ Use This Script
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {comparedModels.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm text-gray-400">
+            <span>Merged script</span>
+            <span>{formatStats(merged)}</span>
+          </div>
+          <textarea
+            value={merged}
+            onChange={(e) => setMerged(e.target.value)}
+            placeholder="Click sentences above to build a script from several candidates..."
+            className="glass-textarea h-32"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={handleClearMerged}
+              disabled={!merged}
+              className="glass-button text-sm disabled:opacity-50"
+            >
+              Clear
+            </button>
+            <button
+              onClick={() => onApply(merged.trim())}
+              disabled={!merged.trim()}
+              className="glass-button-primary text-sm disabled:opacity-50"
+            >
+              ✓ Use Merged Script
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
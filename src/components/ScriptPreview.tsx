@@ -0,0 +1,41 @@
+import React from 'react';
+import type { PronunciationSettings } from '../types';
+import { PronunciationService } from '../services/pronunciationService';
+import { hasSpeechMarkup, tokenizeSpeechMarkup } from '../utils/speechMarkup';
+
+interface ScriptPreviewProps {
+  script: string;
+  pronunciation: PronunciationSettings;
+  languageCode: string; // '' when unknown
+}
+
+/**
+ * The script with its markup picked out, so pauses and emphasis are easy to
+ * spot, and the text the voice will read after the lexicon and number reading
+ */
+export const ScriptPreview: React.FC<ScriptPreviewProps> = ({ script, pronunciation, languageCode }) => (
+  <>
+    {hasSpeechMarkup(script) && (
+      <p className="p-3 rounded-lg bg-glass-bg border border-glass-border text-sm text-gray-300 whitespace-pre-wrap">
+        {tokenizeSpeechMarkup(script).map((token, i) =>
+          token.markup ? (
+            <span key={i} className="px-1 rounded bg-amber-500/20 text-amber-300 font-mono text-xs">
+              {token.text}
+            </span>
+          ) : (
+            <React.Fragment key={i}>{token.text}</React.Fragment>
+          )
+        )}
+      </p>
+    )}
+
+    {script.trim() && (
+      <details className="p-3 rounded-lg bg-glass-bg border border-glass-border">
+        <summary className="text-sm text-gray-300 cursor-pointer">As spoken</summary>
+        <p className="text-sm text-gray-300 whitespace-pre-wrap mt-3">
+          {PronunciationService.toSpokenText(script, pronunciation, languageCode)}
+        </p>
+      </details>
+    )}
+  </>
+);
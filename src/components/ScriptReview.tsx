@@ -1,68 +1,289 @@
-import React, { useState, useEffect } from 'react';
-import type { Slide } from '../types';
-import { OpenRouterService } from '../services/openRouterService';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import type {
+  APIError,
+  BatchProgress,
+  BuildGroup,
+  DialogueSettings,
+  LLMSettings,
+  PronunciationSettings,
+  PromptTemplate,
+  ScriptContext,
+  Slide,
+  SlideAnalysis,
+  TokenUsage,
+  TranslationStatus,
+  TTSProvider,
+  TTSVoice,
+} from '../types';
+import { ScriptService } from '../services/scriptService';
 import { PDFService } from '../services/pdfService';
+import { BuildDetectionService } from '../services/buildDetectionService';
+import { GenerationScheduler } from '../services/generationScheduler';
+import { ModelCatalogService } from '../services/modelCatalogService';
+import { PacingService } from '../services/pacingService';
+import { PronunciationService } from '../services/pronunciationService';
+import { createTTSEngine } from '../services/ttsEngine';
+import { ScriptComparison } from './ScriptComparison';
+import { PronunciationEditor } from './PronunciationEditor';
+import { DialogueEditor } from './DialogueEditor';
+import { PacingPanel } from './PacingPanel';
+import { TranslationPanel } from './TranslationPanel';
+import { TranslationEditor } from './TranslationEditor';
+import { SlideScriptEditor } from './SlideScriptEditor';
+import { API_CONFIG } from '../config/api';
+import { findLanguage, getLanguage } from '../config/languages';
+import { isActiveSlide } from '../utils/slides';
+import { countSpokenWords } from '../utils/speechMarkup';
 
 interface ScriptReviewProps {
   slides: Slide[];
-  apiKey: string;
-  selectedModel: string;
-  onComplete: (slides: Slide[]) => void;
+  buildGroups: BuildGroup[];
+  outline: string;
+  promptTemplate: PromptTemplate;
+  targetLanguages: string[]; // codes of the languages the scripts are translated into
+  targetDuration: number | null; // seconds
+  pronunciation: PronunciationSettings;
+  dialogue: DialogueSettings;
+  ttsProvider: TTSProvider;
+  voiceId: string;
+  llm: LLMSettings;
+  onComplete: (
+    slides: Slide[],
+    buildGroups: BuildGroup[],
+    outline: string,
+    targetDuration: number | null,
+    pronunciation: PronunciationSettings,
+    dialogue: DialogueSettings
+  ) => void;
   onBack: () => void;
 }
 
 export const ScriptReview: React.FC<ScriptReviewProps> = ({
   slides: initialSlides,
-  apiKey,
-  selectedModel,
+  buildGroups: initialBuildGroups,
+  outline: initialOutline,
+  promptTemplate,
+  targetLanguages,
+  targetDuration: initialTargetDuration,
+  pronunciation: initialPronunciation,
+  dialogue: initialDialogue,
+  ttsProvider,
+  voiceId,
+  llm,
   onComplete,
   onBack,
 }) => {
   const [slides, setSlides] = useState<Slide[]>(initialSlides);
+  const [buildGroups, setBuildGroups] = useState<BuildGroup[]>(initialBuildGroups);
   const [loading, setLoading] = useState<Record<string, boolean>>({});
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [generatingAll, setGeneratingAll] = useState(false);
+  const [outline, setOutline] = useState(initialOutline);
+  const [outlineLoading, setOutlineLoading] = useState(false);
+  const [outlineError, setOutlineError] = useState('');
+  const [showOutline, setShowOutline] = useState(false);
+  const [concurrency, setConcurrency] = useState(API_CONFIG.generation.concurrency);
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null);
+  const [batchLabel, setBatchLabel] = useState('scripts');
+  // Language being reviewed; null for the source scripts
+  const [reviewLanguage, setReviewLanguage] = useState<string | null>(null);
+  const [targetDuration, setTargetDuration] = useState(initialTargetDuration);
+  const [comparingSlideId, setComparingSlideId] = useState<string | null>(null);
+  const [pronunciation, setPronunciation] = useState(initialPronunciation);
+  const [dialogue, setDialogue] = useState(initialDialogue);
+  const [voices, setVoices] = useState<TTSVoice[]>([]);
+  const [usage, setUsage] = useState<TokenUsage | null>(null);
+  // Shared by every request in flight; Stop and unmount abort it
+  const abortControllerRef = useRef(new AbortController());
 
   useEffect(() => {
-    // Auto-generate scripts if they're empty
-    const hasEmptyScripts = slides.some((s) => !s.script);
-    if (hasEmptyScripts && !generatingAll) {
+    // A fresh controller per mount, since the previous one was aborted on unmount
+    abortControllerRef.current = new AbortController();
+
+    // Auto-generate scripts if they're empty; paid models wait until the
+    // estimate has been seen and generation is started by hand
+    const hasEmptyScripts = slides.some((s) => isActiveSlide(s) && !s.script);
+    const isPaidModel = !!llm.pricing && !ModelCatalogService.isFree(llm.pricing);
+    if (hasEmptyScripts && !generatingAll && !isPaidModel) {
       generateAllScripts();
     }
+
+    return () => abortControllerRef.current.abort();
   }, []);
 
-  const generateScript = async (slideId: string, imageDataUrl: string) => {
+  // Voices for the per-slide and speaker choices
+  useEffect(() => {
+    let cancelled = false;
+    const engine = createTTSEngine(ttsProvider, { lemonfox: '' });
+
+    engine
+      .listVoices()
+      .catch((err) => {
+        console.warn(`Could not load ${ttsProvider} voices:`, err);
+        return [];
+      })
+      .then((list) => {
+        if (!cancelled) setVoices(list);
+      })
+      .finally(() => engine.cleanup());
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ttsProvider]);
+
+  // Measured from earlier videos with this voice, or the default rate
+  const speechRate = useMemo(
+    () => PacingService.getSpeechRate(PacingService.getVoiceKey(ttsProvider, voiceId)),
+    [ttsProvider, voiceId]
+  );
+  // Other voices must speak the project voice's language
+  const projectLanguage = voices.find((voice) => voice.id === voiceId)?.locale.split(/[-_]/)[0].toLowerCase();
+  const narrationVoices = projectLanguage
+    ? voices.filter((voice) => voice.locale.toLowerCase().startsWith(projectLanguage))
+    : voices;
+  const wordBudgets = targetDuration
+    ? PacingService.allocateWordBudgets(slides.filter(isActiveSlide), targetDuration, speechRate.wordsPerSecond)
+    : null;
+
+  const getErrorMessage = (error: unknown, fallback: string) =>
+    error instanceof Error ? error.message : (error as APIError)?.message || fallback;
+
+  const addUsage = (added: TokenUsage) => {
+    setUsage((prev) => ({
+      promptTokens: (prev?.promptTokens || 0) + added.promptTokens,
+      completionTokens: (prev?.completionTokens || 0) + added.completionTokens,
+      cost:
+        prev?.cost !== undefined || added.cost !== undefined
+          ? (prev?.cost || 0) + (added.cost || 0)
+          : undefined,
+    }));
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current.abort();
+    abortControllerRef.current = new AbortController();
+  };
+
+  const generateOutline = async (
+    signal = abortControllerRef.current.signal
+  ): Promise<string> => {
+    setOutlineLoading(true);
+    setOutlineError('');
+
+    try {
+      const service = new ScriptService(llm);
+      const result = await GenerationScheduler.withRetry(
+        () => service.generateOutline(slides.filter(isActiveSlide), signal, addUsage),
+        signal
+      );
+      setOutline(result);
+      return result;
+    } catch (error) {
+      if (GenerationScheduler.isAbortError(error)) return '';
+      // Scripts can still be written without the outline, just with less flow
+      const errorMsg = getErrorMessage(error, 'Failed to generate outline');
+      setOutlineError(errorMsg);
+      console.error('Error generating outline:', error);
+      return '';
+    } finally {
+      setOutlineLoading(false);
+    }
+  };
+
+  /**
+   * Position of the slide in the talk and the narration that comes before it
+   */
+  const buildContext = (slide: Slide, deckOutline: string, previousScript?: string): ScriptContext => {
+    const activeSlides = slides.filter(isActiveSlide);
+    const index = activeSlides.findIndex((s) => s.id === slide.id);
+
+    return {
+      outline: deckOutline || undefined,
+      previousScript: previousScript ?? activeSlides[index - 1]?.script,
+      position: index + 1,
+      totalSlides: activeSlides.length,
+      wordBudget: wordBudgets?.get(slide.id),
+      dialogue: dialogue.enabled,
+    };
+  };
+
+  const generateScript = async (
+    slide: Slide,
+    context: ScriptContext,
+    signal = abortControllerRef.current.signal
+  ): Promise<string | null> => {
+    const slideId = slide.id;
     setLoading((prev) => ({ ...prev, [slideId]: true }));
     setErrors((prev) => ({ ...prev, [slideId]: '' }));
 
     try {
-      const service = new OpenRouterService(apiKey);
-      const script = await service.generateScript(imageDataUrl, selectedModel);
-
-      if (!script || script.trim().length === 0) {
-        throw new Error('Generated script is empty');
-      }
+      const service = new ScriptService(llm);
+      const analysis = await GenerationScheduler.withRetry(
+        () =>
+          service.generateScript(slide, {
+            context,
+            template: promptTemplate,
+            signal,
+            // Fill the editor as tokens arrive; a cut-off stream leaves its partial text
+            onToken: (text) => updateSlideScript(slideId, text),
+            onUsage: addUsage,
+          }),
+        signal
+      );
 
-      updateSlideScript(slideId, script);
+      updateSlideScript(slideId, analysis.narration);
+      updateSlide(slideId, {
+        title: analysis.title,
+        keyPoints: analysis.keyPoints,
+        altText: analysis.altText,
+      });
+      return analysis.narration;
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Failed to generate script';
+      if (GenerationScheduler.isAbortError(error)) return null;
+      const errorMsg = getErrorMessage(error, 'Failed to generate script');
       setErrors((prev) => ({ ...prev, [slideId]: errorMsg }));
       console.error(`Error generating script for ${slideId}:`, error);
+      return null;
     } finally {
       setLoading((prev) => ({ ...prev, [slideId]: false }));
     }
   };
 
   const generateAllScripts = async () => {
+    const { signal } = abortControllerRef.current;
+    const activeSlides = slides.filter(isActiveSlide);
+    const pendingSlides = activeSlides.filter((s) => !s.script);
+
     setGeneratingAll(true);
+    setBatchLabel('scripts');
+    setBatchProgress({ completed: 0, failed: 0, total: pendingSlides.length });
 
-    for (const slide of slides) {
-      if (!slide.script) {
-        await generateScript(slide.id, slide.imageDataUrl);
-      }
-    }
+    const deckOutline =
+      outline || (activeSlides.length > 1 ? await generateOutline(signal) : '');
+
+    // Slides are started in deck order; a slide follows on from the previous
+    // script when it has finished by then (always, with one request at a time)
+    const scripts = new Map(activeSlides.map((s) => [s.id, s.script]));
+
+    await GenerationScheduler.run(
+      pendingSlides,
+      async (slide) => {
+        const index = activeSlides.indexOf(slide);
+        const previousScript = scripts.get(activeSlides[index - 1]?.id) || '';
+        const script = await generateScript(
+          slide,
+          buildContext(slide, deckOutline, previousScript),
+          signal
+        );
+        if (script) scripts.set(slide.id, script);
+        return !!script;
+      },
+      { concurrency, signal, onProgress: setBatchProgress }
+    );
 
     setGeneratingAll(false);
+    setBatchProgress(null);
   };
 
   const updateSlideScript = (slideId: string, script: string) => {
@@ -72,7 +293,7 @@ export const ScriptReview: React.FC<ScriptReviewProps> = ({
           ? {
               ...slide,
               script,
-              wordCount: PDFService.countWords(script),
+              wordCount: countSpokenWords(script),
               charCount: PDFService.countChars(script),
             }
           : slide
@@ -80,15 +301,220 @@ export const ScriptReview: React.FC<ScriptReviewProps> = ({
     );
   };
 
-  const handleScriptChange = (slideId: string, newScript: string) => {
-    updateSlideScript(slideId, newScript);
+  const isTranslationStale = (slide: Slide, code: string) => {
+    const translation = slide.translations?.[code];
+    return !!translation && translation.sourceScript !== slide.script;
   };
 
-  const handleRegenerate = (slideId: string, imageDataUrl: string) => {
-    generateScript(slideId, imageDataUrl);
+  const needsTranslation = (slide: Slide, code: string) =>
+    !!slide.script.trim() && (!slide.translations?.[code]?.script.trim() || isTranslationStale(slide, code));
+
+  const updateTranslation = (slideId: string, code: string, script: string, sourceScript: string) => {
+    setSlides((prev) =>
+      prev.map((slide) =>
+        slide.id === slideId
+          ? { ...slide, translations: { ...slide.translations, [code]: { script, sourceScript } } }
+          : slide
+      )
+    );
+  };
+
+  const translateScript = async (
+    slide: Slide,
+    code: string,
+    signal = abortControllerRef.current.signal
+  ): Promise<boolean> => {
+    const key = `${slide.id}:${code}`;
+    const sourceScript = slide.script;
+    setLoading((prev) => ({ ...prev, [key]: true }));
+    setErrors((prev) => ({ ...prev, [key]: '' }));
+
+    try {
+      const service = new ScriptService(llm);
+      const script = await GenerationScheduler.withRetry(
+        () =>
+          service.translateScript(sourceScript, getLanguage(code).name, {
+            signal,
+            onToken: (text) => updateTranslation(slide.id, code, text, sourceScript),
+            onUsage: addUsage,
+          }),
+        signal
+      );
+      updateTranslation(slide.id, code, script, sourceScript);
+      return true;
+    } catch (error) {
+      if (GenerationScheduler.isAbortError(error)) return false;
+      const errorMsg = getErrorMessage(error, 'Failed to translate script');
+      setErrors((prev) => ({ ...prev, [key]: errorMsg }));
+      console.error(`Error translating script for ${slide.id} into ${code}:`, error);
+      return false;
+    } finally {
+      setLoading((prev) => ({ ...prev, [key]: false }));
+    }
   };
 
-  const canProceed = slides.every((s) => s.script && s.script.trim().length > 0);
+  /**
+   * Translate every script that has no translation yet or was edited since
+   */
+  const translateAllScripts = async (code: string) => {
+    const { signal } = abortControllerRef.current;
+    const pendingSlides = slides.filter((s) => isActiveSlide(s) && needsTranslation(s, code));
+
+    setGeneratingAll(true);
+    setBatchLabel(`${getLanguage(code).name} translations`);
+    setBatchProgress({ completed: 0, failed: 0, total: pendingSlides.length });
+
+    await GenerationScheduler.run(pendingSlides, (slide) => translateScript(slide, code, signal), {
+      concurrency,
+      signal,
+      onProgress: setBatchProgress,
+    });
+
+    setGeneratingAll(false);
+    setBatchProgress(null);
+  };
+
+  /**
+   * Ask the LLM to bring a script to its word budget, keeping what it says
+   */
+  const fitScript = async (
+    slide: Slide,
+    budget: number,
+    signal = abortControllerRef.current.signal
+  ): Promise<boolean> => {
+    setLoading((prev) => ({ ...prev, [slide.id]: true }));
+    setErrors((prev) => ({ ...prev, [slide.id]: '' }));
+
+    try {
+      const service = new ScriptService(llm);
+      const script = await GenerationScheduler.withRetry(
+        () =>
+          service.fitScript(slide.script, budget, {
+            signal,
+            onToken: (text) => updateSlideScript(slide.id, text),
+            onUsage: addUsage,
+          }),
+        signal
+      );
+      updateSlideScript(slide.id, script);
+      return true;
+    } catch (error) {
+      if (GenerationScheduler.isAbortError(error)) return false;
+      const errorMsg = getErrorMessage(error, 'Failed to fit script');
+      setErrors((prev) => ({ ...prev, [slide.id]: errorMsg }));
+      console.error(`Error fitting script for ${slide.id}:`, error);
+      return false;
+    } finally {
+      setLoading((prev) => ({ ...prev, [slide.id]: false }));
+    }
+  };
+
+  const fitAllScripts = async () => {
+    if (!wordBudgets) return;
+    const { signal } = abortControllerRef.current;
+    const budgets = wordBudgets;
+    const offBudget = slides.filter(
+      (s) => isActiveSlide(s) && s.script.trim() && PacingService.isOffBudget(s.wordCount, budgets.get(s.id) || 0)
+    );
+
+    setGeneratingAll(true);
+    setBatchLabel('scripts fitted to their budget');
+    setBatchProgress({ completed: 0, failed: 0, total: offBudget.length });
+
+    await GenerationScheduler.run(
+      offBudget,
+      (slide) => fitScript(slide, budgets.get(slide.id) || 0, signal),
+      { concurrency, signal, onProgress: setBatchProgress }
+    );
+
+    setGeneratingAll(false);
+    setBatchProgress(null);
+  };
+
+  const handlePronunciationChange = (settings: PronunciationSettings) => {
+    setPronunciation(settings);
+    PronunciationService.save(settings);
+  };
+
+  const updateSlide = (slideId: string, changes: Partial<Slide>) => {
+    setSlides((prev) =>
+      prev.map((slide) => (slide.id === slideId ? { ...slide, ...changes } : slide))
+    );
+  };
+
+  const handleRegenerate = async (slide: Slide) => {
+    const needsOutline = !outline && slides.filter(isActiveSlide).length > 1;
+    const deckOutline = needsOutline ? await generateOutline() : outline;
+    generateScript(slide, buildContext(slide, deckOutline));
+  };
+
+  const handleApplyComparison = (slideId: string, script: string, analysis?: SlideAnalysis) => {
+    updateSlideScript(slideId, script);
+    if (analysis) {
+      updateSlide(slideId, {
+        title: analysis.title,
+        keyPoints: analysis.keyPoints,
+        altText: analysis.altText,
+      });
+    }
+    setComparingSlideId(null);
+  };
+
+  const handleToggleExcluded = (slideId: string) => {
+    setSlides((prev) =>
+      prev.map((slide) =>
+        slide.id === slideId ? { ...slide, excluded: !slide.excluded } : slide
+      )
+    );
+  };
+
+  const handleUpdateBuildGroup = (groupId: string, changes: Partial<BuildGroup>) => {
+    const updatedGroups = buildGroups.map((group) =>
+      group.id === groupId ? { ...group, ...changes } : group
+    );
+    setBuildGroups(updatedGroups);
+    setSlides((prev) => BuildDetectionService.applyBuildGroups(prev, updatedGroups));
+  };
+
+  const formatPages = (group: BuildGroup) => {
+    const pages = group.slideIds.map((id) => slides.find((s) => s.id === id)?.pageNumber);
+    return `${pages[0]}–${pages[pages.length - 1]}`;
+  };
+
+  const includedSlides = slides.filter(isActiveSlide);
+  const excludedCount = slides.filter((s) => s.excluded && !s.mergedInto).length;
+  const proposedBuilds = buildGroups.filter((g) => g.status === 'proposed').length;
+  const pendingSlides = includedSlides.filter((s) => !s.script);
+  const costEstimate =
+    llm.pricing && pendingSlides.length > 0
+      ? ModelCatalogService.estimateCost(
+          pendingSlides,
+          llm.pricing,
+          promptTemplate,
+          !outline && includedSlides.length > 1
+        )
+      : null;
+  const sourceLanguageCode = findLanguage(promptTemplate.variables.language)?.code || '';
+
+  const projectedDuration = PacingService.projectDuration(includedSlides, speechRate.wordsPerSecond);
+  const offBudgetCount = wordBudgets
+    ? includedSlides.filter(
+        (s) => s.script.trim() && PacingService.isOffBudget(s.wordCount, wordBudgets.get(s.id) || 0)
+      ).length
+    : 0;
+  const translationStatus: Record<string, TranslationStatus> = Object.fromEntries(
+    targetLanguages.map((code) => [
+      code,
+      {
+        missing: includedSlides.filter((s) => !s.translations?.[code]?.script.trim()).length,
+        stale: includedSlides.filter((s) => isTranslationStale(s, code)).length,
+      },
+    ])
+  );
+  const canProceed =
+    includedSlides.length > 0 &&
+    includedSlides.every((s) => s.script && s.script.trim().length > 0) &&
+    targetLanguages.every((code) => translationStatus[code].missing === 0 && translationStatus[code].stale === 0);
 
   return (
     <div className="w-full max-w-7xl mx-auto p-6 space-y-6">
@@ -108,89 +534,377 @@ export const ScriptReview: React.FC<ScriptReviewProps> = ({
       {/* Global Actions */}
       <div className="glass-card p-4 flex items-center justify-between">
         <div className="text-sm text-gray-300">
-          <span className="font-medium">{slides.length}</span> slides •{' '}
+          <span className="font-medium">{includedSlides.length}</span> slides •{' '}
           <span className="font-medium">
-            {slides.filter((s) => s.script).length}
+            {includedSlides.filter((s) => s.script).length}
           </span>{' '}
           with scripts
+          {excludedCount > 0 && (
+            <>
+              {' '}•{' '}
+              <span className="font-medium">{excludedCount}</span> excluded
+            </>
+          )}
+          {proposedBuilds > 0 && (
+            <>
+              {' '}•{' '}
+              <span className="font-medium text-purple-400">{proposedBuilds}</span>{' '}
+              animation {proposedBuilds === 1 ? 'build' : 'builds'} to review
+            </>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-400" title="One at a time keeps every transition; more is faster">
+            Parallel requests
+          </label>
+          <select
+            value={concurrency}
+            onChange={(e) => setConcurrency(Number(e.target.value))}
+            disabled={generatingAll}
+            className="glass-input w-20 py-2 disabled:opacity-50"
+          >
+            {Array.from({ length: API_CONFIG.generation.maxConcurrency }, (_, i) => i + 1).map((n) => (
+              <option key={n} value={n}>
+                {n}
+              </option>
+            ))}
+          </select>
+          {generatingAll ? (
+            <button onClick={handleStop} className="glass-button">
+              ⏹ Stop
+            </button>
+          ) : (
+            <button onClick={() => generateAllScripts()} className="glass-button">
+              Regenerate All Empty Scripts
+            </button>
+          )}
         </div>
-        <button
-          onClick={generateAllScripts}
-          disabled={generatingAll}
-          className="glass-button disabled:opacity-50"
-        >
-          {generatingAll ? 'Generating...' : 'Regenerate All Empty Scripts'}
-        </button>
       </div>
 
+      {/* Duration */}
+      <PacingPanel
+        targetDuration={targetDuration}
+        projectedDuration={projectedDuration}
+        speechRate={speechRate}
+        offBudgetCount={wordBudgets ? offBudgetCount : null}
+        disabled={generatingAll}
+        onTargetDurationChange={setTargetDuration}
+        onFitAll={fitAllScripts}
+      />
+
+      {/* Languages */}
+      {targetLanguages.length > 0 && (
+        <TranslationPanel
+          sourceLanguage={promptTemplate.variables.language}
+          targetLanguages={targetLanguages}
+          status={translationStatus}
+          reviewLanguage={reviewLanguage}
+          canTranslate={
+            !!reviewLanguage && !generatingAll && includedSlides.some((s) => needsTranslation(s, reviewLanguage))
+          }
+          onReviewLanguageChange={setReviewLanguage}
+          onTranslateAll={translateAllScripts}
+        />
+      )}
+
+      {/* Cost */}
+      {((costEstimate && !generatingAll) || usage) && (
+        <div className="glass-card p-4 space-y-1 text-sm">
+          {costEstimate && !generatingAll && (
+            <p className="text-gray-300">
+              Estimated cost for {pendingSlides.length} {pendingSlides.length === 1 ? 'script' : 'scripts'}:{' '}
+              <span className="font-medium text-white">
+                ~{ModelCatalogService.formatCost(costEstimate.cost || 0)}
+              </span>{' '}
+              <span className="text-gray-500">
+                ({costEstimate.requests} requests • ≈{costEstimate.promptTokens.toLocaleString()} input +{' '}
+                {costEstimate.completionTokens.toLocaleString()} output tokens, plus a repair request for any reply
+                that is not valid JSON)
+              </span>
+            </p>
+          )}
+          {costEstimate && !generatingAll && !usage && !ModelCatalogService.isFree(llm.pricing) && (
+            <p className="text-gray-500">
+              Paid model selected - start generation when you are happy with the estimate
+            </p>
+          )}
+          {usage && (
+            <p className="text-gray-300">
+              Actual usage: {usage.promptTokens.toLocaleString()} input +{' '}
+              {usage.completionTokens.toLocaleString()} output tokens •{' '}
+              <span className="font-medium text-white">
+                {usage.cost !== undefined
+                  ? ModelCatalogService.formatCost(usage.cost)
+                  : 'cost not reported'}
+              </span>
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Batch Progress */}
+      {batchProgress && batchProgress.total > 0 && (
+        <div className="glass-card p-4 space-y-2">
+          <div className="flex items-center justify-between text-sm text-gray-300">
+            <span>
+              Finished {batchProgress.completed - batchProgress.failed} of {batchProgress.total} {batchLabel}
+              {batchProgress.failed > 0 && (
+                <span className="text-red-400"> • {batchProgress.failed} failed</span>
+              )}
+            </span>
+            <span>{Math.round((batchProgress.completed / batchProgress.total) * 100)}%</span>
+          </div>
+          <div className="w-full h-2 bg-glass-bg rounded-full overflow-hidden border border-glass-border">
+            <div
+              className="h-full bg-gradient-to-r from-purple-500 to-pink-500 transition-all duration-300"
+              style={{ width: `${(batchProgress.completed / batchProgress.total) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Presentation Outline */}
+      <div className="glass-card p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setShowOutline((prev) => !prev)}
+            className="text-left text-sm font-medium text-gray-300 hover:text-white"
+          >
+            {showOutline ? '▾' : '▸'} Presentation outline
+            <span className="ml-2 text-gray-500 font-normal">
+              {outlineLoading
+                ? 'Generating...'
+                : outline
+                ? 'Used as context for every script'
+                : 'Not generated yet'}
+            </span>
+          </button>
+          <button
+            onClick={() => generateOutline()}
+            disabled={outlineLoading || generatingAll}
+            className="glass-button text-sm disabled:opacity-50"
+          >
+            {outline ? '🔄 Regenerate Outline' : 'Generate Outline'}
+          </button>
+        </div>
+        {showOutline && (
+          <textarea
+            value={outline}
+            onChange={(e) => setOutline(e.target.value)}
+            placeholder="The outline of the talk appears here and can be edited before generating scripts"
+            disabled={outlineLoading}
+            className="glass-textarea h-48 text-sm disabled:opacity-50"
+          />
+        )}
+        {outlineError && (
+          <p className="text-red-400 text-sm">{outlineError}</p>
+        )}
+      </div>
+
+      <PronunciationEditor settings={pronunciation} onChange={handlePronunciationChange} />
+
+      <DialogueEditor settings={dialogue} voices={narrationVoices} onChange={setDialogue} />
+
       {/* Slides Grid */}
       <div className="space-y-6">
-        {slides.map((slide) => (
-          <div key={slide.id} className="glass-card p-6">
-            <div className="grid lg:grid-cols-2 gap-6">
-              {/* Slide Preview */}
-              <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <h3 className="text-lg font-semibold text-white">
-                    Slide {slide.pageNumber}
-                  </h3>
+        {slides.map((slide, index) => {
+          const buildGroup = buildGroups.find(
+            (g) => g.status !== 'rejected' && g.slideIds[g.slideIds.length - 1] === slide.id
+          );
+          const splitGroup = buildGroups.find(
+            (g) => g.status === 'rejected' && g.slideIds[0] === slide.id
+          );
+
+          return (
+            <React.Fragment key={slide.id}>
+              {slide.section && slide.section !== slides[index - 1]?.section && (
+                <div className="flex items-center gap-3 pt-4">
+                  <span className="text-xs uppercase tracking-wider text-purple-400">Section</span>
+                  <h2 className="text-2xl font-semibold text-white">{slide.section}</h2>
+                  <div className="flex-1 h-px bg-glass-border" />
+                </div>
+              )}
+              {splitGroup && (
+                <div className="glass-card p-3 flex items-center justify-between text-sm text-gray-400">
+                  <span>Pages {formatPages(splitGroup)} looked like an animation build</span>
                   <button
-                    onClick={() => handleRegenerate(slide.id, slide.imageDataUrl)}
-                    disabled={loading[slide.id]}
-                    className="glass-button text-sm disabled:opacity-50"
+                    onClick={() => handleUpdateBuildGroup(splitGroup.id, { status: 'accepted' })}
+                    className="glass-button text-sm"
                   >
-                    {loading[slide.id] ? 'Generating...' : '🔄 Regenerate'}
+                    🔗 Merge pages
                   </button>
                 </div>
-                <div className="rounded-lg overflow-hidden border border-glass-border">
-                  <img
-                    src={slide.imageDataUrl}
-                    alt={`Slide ${slide.pageNumber}`}
-                    className="w-full h-auto"
-                  />
-                </div>
-              </div>
-
-              {/* Script Editor */}
-              <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <h4 className="text-md font-medium text-gray-300">Narration Script</h4>
-                  <div className="flex gap-4 text-sm text-gray-400">
-                    <span>{slide.wordCount} words</span>
-                    <span>{slide.charCount} chars</span>
-                  </div>
-                </div>
+              )}
+              {!slide.mergedInto && (
+                <div
+                  className={`glass-card p-6 transition-opacity ${slide.excluded ? 'opacity-50' : ''}`}
+                >
+                  <div className="grid lg:grid-cols-2 gap-6">
+                    {/* Slide Preview */}
+                    <div className="space-y-4">
+                      <div className="flex items-center justify-between">
+                        <h3 className="text-lg font-semibold text-white">
+                          {buildGroup ? `Slides ${formatPages(buildGroup)}` : `Slide ${slide.pageNumber}`}
+                          {slide.title && <span className="text-gray-400 font-normal"> · {slide.title}</span>}
+                          {slide.excluded && (
+                            <span className="ml-2 text-xs bg-gray-500/20 text-gray-400 px-2 py-1 rounded-full align-middle">
+                              EXCLUDED
+                            </span>
+                          )}
+                        </h3>
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => handleToggleExcluded(slide.id)}
+                            disabled={loading[slide.id]}
+                            className="glass-button text-sm disabled:opacity-50"
+                          >
+                            {slide.excluded ? '➕ Include' : '🚫 Exclude'}
+                          </button>
+                          {reviewLanguage ? (
+                            <button
+                              onClick={() => translateScript(slide, reviewLanguage)}
+                              disabled={
+                                loading[`${slide.id}:${reviewLanguage}`] || slide.excluded || !slide.script.trim()
+                              }
+                              className="glass-button text-sm disabled:opacity-50"
+                            >
+                              {loading[`${slide.id}:${reviewLanguage}`] ? 'Translating...' : '🌐 Translate'}
+                            </button>
+                          ) : (
+                            <>
+                              <button
+                                onClick={() =>
+                                  setComparingSlideId(comparingSlideId === slide.id ? null : slide.id)
+                                }
+                                disabled={loading[slide.id] || slide.excluded}
+                                className="glass-button text-sm disabled:opacity-50"
+                              >
+                                ⚖️ Compare
+                              </button>
+                              <button
+                                onClick={() => handleRegenerate(slide)}
+                                disabled={loading[slide.id] || slide.excluded}
+                                className="glass-button text-sm disabled:opacity-50"
+                              >
+                                {loading[slide.id] ? 'Generating...' : '🔄 Regenerate'}
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                      <div className="rounded-lg overflow-hidden border border-glass-border">
+                        <img
+                          src={slide.imageUrl}
+                          alt={slide.altText || `Slide ${slide.pageNumber}`}
+                          className="w-full h-auto"
+                        />
+                      </div>
+                      {buildGroup && (
+                        <div className="p-3 rounded-lg bg-purple-500/10 border border-purple-500/30 space-y-3">
+                          <div className="flex items-center justify-between gap-2">
+                            <p className="text-sm text-purple-300">
+                              {buildGroup.status === 'proposed'
+                                ? 'These pages look like an animation build'
+                                : 'Animation build'}{' '}
+                              ({buildGroup.slideIds.length} pages)
+                            </p>
+                            <div className="flex gap-2">
+                              {buildGroup.status === 'proposed' && (
+                                <button
+                                  onClick={() => handleUpdateBuildGroup(buildGroup.id, { status: 'accepted' })}
+                                  className="glass-button text-sm"
+                                >
+                                  ✓ Keep merged
+                                </button>
+                              )}
+                              <button
+                                onClick={() => handleUpdateBuildGroup(buildGroup.id, { status: 'rejected' })}
+                                className="glass-button text-sm"
+                              >
+                                ✂️ Split pages
+                              </button>
+                            </div>
+                          </div>
+                          <div className="flex gap-2 overflow-x-auto">
+                            {buildGroup.slideIds.map((id) => {
+                              const step = slides.find((s) => s.id === id);
+                              return step ? (
+                                <img
+                                  key={id}
+                                  src={step.imageUrl}
+                                  alt={`Build step from slide ${step.pageNumber}`}
+                                  className="h-16 rounded border border-glass-border"
+                                />
+                              ) : null;
+                            })}
+                          </div>
+                          <label className="flex items-center gap-2 text-sm text-gray-300">
+                            <input
+                              type="checkbox"
+                              checked={buildGroup.showSteps}
+                              onChange={(e) =>
+                                handleUpdateBuildGroup(buildGroup.id, { showSteps: e.target.checked })
+                              }
+                            />
+                            Show each build step in turn while this slide is narrated
+                          </label>
+                        </div>
+                      )}
+                    </div>
 
-                <textarea
-                  value={slide.script}
-                  onChange={(e) => handleScriptChange(slide.id, e.target.value)}
-                  placeholder={
-                    loading[slide.id]
-                      ? 'Generating script...'
-                      : 'Enter narration script for this slide...'
-                  }
-                  disabled={loading[slide.id]}
-                  className="glass-textarea h-64 disabled:opacity-50"
-                />
-
-                {errors[slide.id] && (
-                  <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/50">
-                    <p className="text-red-400 text-sm">{errors[slide.id]}</p>
-                  </div>
-                )}
-
-                {slide.wordCount > 80 && (
-                  <div className="p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/50">
-                    <p className="text-yellow-400 text-sm">
-                      ⚠️ Script is longer than recommended (80 words). Consider
-                      shortening for better pacing.
-                    </p>
+                    {/* Script Editor */}
+                    <div className="space-y-4">
+                      {reviewLanguage ? (
+                        <TranslationEditor
+                          slide={slide}
+                          languageCode={reviewLanguage}
+                          stale={isTranslationStale(slide, reviewLanguage)}
+                          loading={!!loading[`${slide.id}:${reviewLanguage}`]}
+                          error={errors[`${slide.id}:${reviewLanguage}`]}
+                          pronunciation={pronunciation}
+                          onChange={(script, sourceScript) =>
+                            updateTranslation(slide.id, reviewLanguage, script, sourceScript)
+                          }
+                        />
+                      ) : (
+                        <SlideScriptEditor
+                          slide={slide}
+                          wordBudget={wordBudgets?.get(slide.id)}
+                          targetWords={promptTemplate.variables.targetWords}
+                          wordsPerSecond={speechRate.wordsPerSecond}
+                          loading={!!loading[slide.id]}
+                          error={errors[slide.id]}
+                          ttsProvider={ttsProvider}
+                          voices={narrationVoices.filter((voice) => voice.id !== voiceId)}
+                          pronunciation={pronunciation}
+                          languageCode={sourceLanguageCode}
+                          onScriptChange={(script) => updateSlideScript(slide.id, script)}
+                          onChange={(changes) => updateSlide(slide.id, changes)}
+                          onFit={() => fitScript(slide, wordBudgets?.get(slide.id) || 0)}
+                        />
+                      )}
+                    </div>
                   </div>
-                )}
-              </div>
-            </div>
-          </div>
-        ))}
+
+                  {comparingSlideId === slide.id && !reviewLanguage && (
+                    <div className="mt-6">
+                      <ScriptComparison
+                        slide={slide}
+                        context={buildContext(slide, outline)}
+                        promptTemplate={promptTemplate}
+                        llm={llm}
+                        wordsPerSecond={speechRate.wordsPerSecond}
+                        onUsage={addUsage}
+                        onApply={(script, analysis) => handleApplyComparison(slide.id, script, analysis)}
+                        onClose={() => setComparingSlideId(null)}
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+            </React.Fragment>
+          );
+        })}
       </div>
 
       {/* Action Bar */}
@@ -200,12 +914,18 @@ export const ScriptReview: React.FC<ScriptReviewProps> = ({
             <span className="text-green-400">✓ All scripts ready</span>
           ) : (
             <span className="text-yellow-400">
-              ⚠️ Some slides are missing scripts
+              {includedSlides.length === 0
+                ? '⚠️ All slides are excluded'
+                : includedSlides.some((s) => !s.script.trim())
+                ? '⚠️ Some slides are missing scripts'
+                : targetLanguages.some((code) => translationStatus[code].missing > 0)
+                ? '⚠️ Some translations are missing'
+                : '⚠️ Some translations are outdated - translate them again'}
             </span>
           )}
         </div>
         <button
-          onClick={() => onComplete(slides)}
+          onClick={() => onComplete(slides, buildGroups, outline, targetDuration, pronunciation, dialogue)}
           disabled={!canProceed}
           className="glass-button-primary text-lg px-8 py-4 disabled:opacity-50 disabled:cursor-not-allowed"
         >
@@ -0,0 +1,256 @@
+import React, { useRef } from 'react';
+import type { PronunciationSettings, Slide, SlideProsody, TTSProvider, TTSVoice } from '../types';
+import { ScriptPreview } from './ScriptPreview';
+import { PacingService } from '../services/pacingService';
+import { DEFAULT_PROSODY, getTTSProvider, PROSODY_LIMITS } from '../config/ttsProviders';
+import { DIALOGUE_SPEAKERS, hasDialogue } from '../utils/dialogue';
+
+// Delivery markup the editor inserts around the selection
+const MARKUP_BUTTONS = [
+  { label: '⏸ Pause', title: 'Half a second of silence; write [pause 2s] for longer', before: '[pause]', after: '' },
+  { label: 'Emphasis', title: 'Stress the selected words', before: '*', after: '*' },
+  { label: 'Spell', title: 'Read the selection letter by letter', before: '[spell]', after: '[/spell]' },
+  { label: 'Slow', title: 'Read the selection more slowly', before: '[slow]', after: '[/slow]' },
+  { label: 'Fast', title: 'Read the selection more quickly', before: '[fast]', after: '[/fast]' },
+];
+
+interface SlideScriptEditorProps {
+  slide: Slide;
+  wordBudget?: number; // words for the target length, when one is set
+  targetWords: number; // the template's recommended length otherwise
+  wordsPerSecond: number;
+  loading: boolean;
+  error?: string;
+  ttsProvider: TTSProvider;
+  voices: TTSVoice[]; // voices that can replace the project voice
+  pronunciation: PronunciationSettings;
+  languageCode: string; // of the source scripts, '' when unknown
+  onScriptChange: (script: string) => void;
+  onChange: (changes: Partial<Slide>) => void;
+  onFit: () => void;
+}
+
+export const SlideScriptEditor: React.FC<SlideScriptEditorProps> = ({
+  slide,
+  wordBudget,
+  targetWords,
+  wordsPerSecond,
+  loading,
+  error,
+  ttsProvider,
+  voices,
+  pronunciation,
+  languageCode,
+  onScriptChange,
+  onChange,
+  onFit,
+}) => {
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+  const provider = getTTSProvider(ttsProvider);
+  const prosody = slide.prosody || DEFAULT_PROSODY;
+
+  /**
+   * Wrap the editor's selection in markup, keeping the selection
+   */
+  const handleInsertMarkup = (before: string, after: string) => {
+    const editor = editorRef.current;
+    const start = editor?.selectionStart ?? slide.script.length;
+    const end = editor?.selectionEnd ?? slide.script.length;
+
+    onScriptChange(
+      slide.script.slice(0, start) + before + slide.script.slice(start, end) + after + slide.script.slice(end)
+    );
+    requestAnimationFrame(() => {
+      editor?.focus();
+      editor?.setSelectionRange(start + before.length, end + before.length);
+    });
+  };
+
+  const handleProsodyChange = (changes: Partial<SlideProsody>) => {
+    onChange({ prosody: { ...prosody, ...changes } });
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <h4 className="text-md font-medium text-gray-300">Narration Script</h4>
+          {slide.speakerNotes && slide.script === slide.speakerNotes && (
+            <span className="text-xs bg-blue-500/20 text-blue-400 px-2 py-1 rounded-full">
+              From speaker notes
+            </span>
+          )}
+          {hasDialogue(slide.script, DIALOGUE_SPEAKERS) && (
+            <span className="text-xs bg-purple-500/20 text-purple-300 px-2 py-1 rounded-full">
+              🎙️ Dialogue
+            </span>
+          )}
+        </div>
+        <div className="flex gap-4 text-sm text-gray-400">
+          <span>
+            {slide.wordCount}
+            {wordBudget !== undefined && ` / ${wordBudget}`} words
+          </span>
+          <span>{slide.charCount} chars</span>
+          <span>~{Math.round(PacingService.estimateSeconds(slide, wordsPerSecond))}s</span>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {MARKUP_BUTTONS.map((button) => (
+          <button
+            key={button.label}
+            onClick={() => handleInsertMarkup(button.before, button.after)}
+            disabled={loading}
+            title={
+              button.before === '*' && !provider.capabilities.ssml
+                ? `${button.title} (not stressed by ${provider.name}, which has no SSML)`
+                : button.title
+            }
+            className="glass-button text-xs px-3 py-1 disabled:opacity-50"
+          >
+            {button.label}
+          </button>
+        ))}
+        <label className="flex items-center gap-2 text-xs text-gray-400 ml-auto">
+          Voice
+          <select
+            value={slide.voiceId || ''}
+            onChange={(e) => onChange({ voiceId: e.target.value || undefined })}
+            className="glass-input text-xs py-1 w-40"
+          >
+            <option value="">Project voice</option>
+            {voices.map((voice) => (
+              <option key={voice.id} value={voice.id}>
+                {voice.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          Rate
+          <input
+            type="range"
+            min={PROSODY_LIMITS.rate.min}
+            max={PROSODY_LIMITS.rate.max}
+            step={PROSODY_LIMITS.rate.step}
+            value={prosody.rate}
+            onChange={(e) => handleProsodyChange({ rate: Number(e.target.value) })}
+          />
+          <span className="w-10">{Math.round(prosody.rate * 100)}%</span>
+        </label>
+        <label
+          className={`flex items-center gap-2 text-xs ${provider.capabilities.pitch ? 'text-gray-400' : 'text-gray-600'}`}
+          title={provider.capabilities.pitch ? undefined : 'This voice cannot change pitch'}
+        >
+          Pitch
+          <input
+            type="range"
+            min={PROSODY_LIMITS.pitch.min}
+            max={PROSODY_LIMITS.pitch.max}
+            step={PROSODY_LIMITS.pitch.step}
+            value={prosody.pitch}
+            onChange={(e) => handleProsodyChange({ pitch: Number(e.target.value) })}
+            disabled={!provider.capabilities.pitch}
+          />
+          <span className="w-10">
+            {prosody.pitch > 0 && '+'}
+            {prosody.pitch}%
+          </span>
+        </label>
+      </div>
+
+      <textarea
+        ref={editorRef}
+        value={slide.script}
+        onChange={(e) => onScriptChange(e.target.value)}
+        placeholder={loading ? 'Generating script...' : 'Enter narration script for this slide...'}
+        // Read-only rather than disabled so streamed text stays legible
+        readOnly={loading}
+        className="glass-textarea h-64"
+      />
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/50">
+          <p className="text-red-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      <ScriptPreview script={slide.script} pronunciation={pronunciation} languageCode={languageCode} />
+
+      <div>
+        <label className="block text-sm text-gray-400 mb-1">Instructions for this slide</label>
+        <input
+          type="text"
+          value={slide.instructions || ''}
+          onChange={(e) => onChange({ instructions: e.target.value })}
+          placeholder='e.g. "Mention the Q3 launch date" or "Skip the footnotes"'
+          className="glass-input text-sm"
+        />
+        <p className="text-xs text-gray-500 mt-1">Added to this slide's request when regenerating</p>
+      </div>
+
+      {(slide.title || slide.altText || slide.keyPoints?.length) && (
+        <details className="p-3 rounded-lg bg-glass-bg border border-glass-border">
+          <summary className="text-sm text-gray-300 cursor-pointer">Title, key points and alt text</summary>
+          <div className="space-y-3 mt-3">
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Title (used for chapters)</label>
+              <input
+                type="text"
+                value={slide.title || ''}
+                onChange={(e) => onChange({ title: e.target.value })}
+                className="glass-input text-sm"
+              />
+            </div>
+            {slide.keyPoints && slide.keyPoints.length > 0 && (
+              <div>
+                <p className="text-sm text-gray-400 mb-1">Key points</p>
+                <ul className="list-disc list-inside text-sm text-gray-300 space-y-1">
+                  {slide.keyPoints.map((point, i) => (
+                    <li key={i}>{point}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Alt text (for screen readers)</label>
+              <textarea
+                value={slide.altText || ''}
+                onChange={(e) => onChange({ altText: e.target.value })}
+                className="glass-textarea h-20 text-sm"
+              />
+            </div>
+          </div>
+        </details>
+      )}
+
+      {wordBudget !== undefined ? (
+        slide.script.trim() &&
+        PacingService.isOffBudget(slide.wordCount, wordBudget) && (
+          <div className="flex items-center justify-between gap-4 p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/50">
+            <p className="text-yellow-400 text-sm">
+              ⚠️ Script is {slide.wordCount > wordBudget ? 'longer' : 'shorter'} than its budget of {wordBudget} words
+              for the target length.
+            </p>
+            <button
+              onClick={onFit}
+              disabled={loading}
+              className="glass-button text-sm whitespace-nowrap disabled:opacity-50"
+            >
+              ✂️ Fit to Budget
+            </button>
+          </div>
+        )
+      ) : (
+        slide.wordCount > targetWords && (
+          <div className="p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/50">
+            <p className="text-yellow-400 text-sm">
+              ⚠️ Script is longer than recommended ({targetWords} words). Consider shortening for better pacing.
+            </p>
+          </div>
+        )
+      )}
+    </>
+  );
+};
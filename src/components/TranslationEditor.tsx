@@ -0,0 +1,74 @@
+import React from 'react';
+import type { PronunciationSettings, Slide } from '../types';
+import { ScriptPreview } from './ScriptPreview';
+import { getLanguage } from '../config/languages';
+import { countSpokenWords } from '../utils/speechMarkup';
+
+interface TranslationEditorProps {
+  slide: Slide;
+  languageCode: string;
+  stale: boolean; // the source script was edited after translating
+  loading: boolean;
+  error?: string;
+  pronunciation: PronunciationSettings;
+  onChange: (script: string, sourceScript: string) => void;
+}
+
+export const TranslationEditor: React.FC<TranslationEditorProps> = ({
+  slide,
+  languageCode,
+  stale,
+  loading,
+  error,
+  pronunciation,
+  onChange,
+}) => {
+  const translation = slide.translations?.[languageCode];
+  const script = translation?.script || '';
+
+  return (
+    <>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <h4 className="text-md font-medium text-gray-300">{getLanguage(languageCode).name} Narration</h4>
+          {stale && (
+            <span className="text-xs bg-yellow-500/20 text-yellow-400 px-2 py-1 rounded-full">
+              Source changed - translate again
+            </span>
+          )}
+        </div>
+        <div className="flex gap-4 text-sm text-gray-400">
+          <span>{countSpokenWords(script)} words</span>
+        </div>
+      </div>
+
+      <textarea
+        value={script}
+        // A hand edit still belongs to the source it was translated from
+        onChange={(e) => onChange(e.target.value, translation?.sourceScript ?? slide.script)}
+        placeholder={
+          loading
+            ? 'Translating...'
+            : slide.script.trim()
+            ? 'Translate the script or enter the narration for this language...'
+            : 'Write the source script first'
+        }
+        readOnly={loading}
+        className="glass-textarea h-64"
+      />
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/50">
+          <p className="text-red-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      <ScriptPreview script={script} pronunciation={pronunciation} languageCode={languageCode} />
+
+      <div className="p-3 rounded-lg bg-glass-bg border border-glass-border">
+        <p className="text-xs uppercase tracking-wider text-gray-500 mb-1">Source script</p>
+        <p className="text-sm text-gray-300 whitespace-pre-wrap">{slide.script || 'No script yet'}</p>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import type { TranslationStatus } from '../types';
+import { getLanguage } from '../config/languages';
+
+interface TranslationPanelProps {
+  sourceLanguage: string; // name of the language the scripts are written in
+  targetLanguages: string[]; // codes
+  status: Record<string, TranslationStatus>;
+  reviewLanguage: string | null; // null for the source scripts
+  canTranslate: boolean; // some script in the reviewed language is missing or outdated
+  onReviewLanguageChange: (code: string | null) => void;
+  onTranslateAll: (code: string) => void;
+}
+
+export const TranslationPanel: React.FC<TranslationPanelProps> = ({
+  sourceLanguage,
+  targetLanguages,
+  status,
+  reviewLanguage,
+  canTranslate,
+  onReviewLanguageChange,
+  onTranslateAll,
+}) => {
+  const tabClassName = (selected: boolean) =>
+    `px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+      selected ? 'bg-purple-500/30 text-white' : 'bg-glass-bg text-gray-400 hover:text-white'
+    }`;
+
+  return (
+    <div className="glass-card p-4 flex flex-wrap items-center justify-between gap-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-gray-400">Reviewing</span>
+        <button onClick={() => onReviewLanguageChange(null)} className={tabClassName(reviewLanguage === null)}>
+          {sourceLanguage} (source)
+        </button>
+        {targetLanguages.map((code) => {
+          const { missing, stale } = status[code];
+          return (
+            <button key={code} onClick={() => onReviewLanguageChange(code)} className={tabClassName(reviewLanguage === code)}>
+              {getLanguage(code).name}
+              {missing > 0 ? (
+                <span className="ml-2 text-yellow-400">{missing} missing</span>
+              ) : stale > 0 ? (
+                <span className="ml-2 text-yellow-400">{stale} outdated</span>
+              ) : (
+                <span className="ml-2 text-green-400">✓</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+      {reviewLanguage && (
+        <button
+          onClick={() => onTranslateAll(reviewLanguage)}
+          disabled={!canTranslate}
+          className="glass-button text-sm disabled:opacity-50"
+        >
+          🌐 Translate Missing & Outdated
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,142 +1,342 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { VOICE_PROFILES, DEFAULT_VOICE, type VoiceProfile } from '../config/voices';
-import { OPENROUTER_MODELS, DEFAULT_MODEL } from '../config/models';
+import { NARRATION_LANGUAGES, findLanguage, getLanguage, matchesLanguage } from '../config/languages';
+import { LLM_PROVIDERS, DEFAULT_LLM_SETTINGS, getLLMProvider } from '../config/models';
 import { API_CONFIG } from '../config/api';
-import { TTSService } from '../services/ttsService';
-import { WebSpeechService } from '../services/webSpeechService';
-import { PuterTTSService, type PuterTTSVoice } from '../services/puterTTSService';
-import type { TTSProvider } from '../types';
+import { REGION_LOCALES, TTS_PROVIDERS, getTTSProvider, type TTSProviderInfo } from '../config/ttsProviders';
+import { createTTSEngine } from '../services/ttsEngine';
+import { DeckImportService } from '../services/deckImportService';
+import { PromptTemplateService } from '../services/promptTemplateService';
+import { ModelCatalogService, type ModelCatalog } from '../services/modelCatalogService';
+import { PROMPT_VARIABLE_NAMES } from '../config/prompts';
+import { isValidPageRange } from '../utils/pageRange';
+import type {
+  DeckImportOptions,
+  LLMProviderId,
+  LLMSettings,
+  PromptTemplate,
+  PromptVariables,
+  TargetLanguage,
+  TTSProvider,
+  TTSVoice,
+} from '../types';
+
+// Tailwind needs the full class names, so each accent spells them out
+const ACCENT_CLASSES: Record<
+  TTSProviderInfo['accent'],
+  { card: string; badge: string; ring: string; button: string; icon: string; filter: string }
+> = {
+  green: {
+    card: 'border-green-500 bg-green-500/10',
+    badge: 'bg-green-500/20 text-green-400',
+    ring: 'ring-green-500',
+    button: 'bg-green-500/20 hover:bg-green-500/30',
+    icon: 'text-green-400',
+    filter: 'bg-green-500/30',
+  },
+  blue: {
+    card: 'border-blue-500 bg-blue-500/10',
+    badge: 'bg-blue-500/20 text-blue-400',
+    ring: 'ring-blue-500',
+    button: 'bg-blue-500/20 hover:bg-blue-500/30',
+    icon: 'text-blue-400',
+    filter: 'bg-blue-500/30',
+  },
+  teal: {
+    card: 'border-teal-500 bg-teal-500/10',
+    badge: 'bg-teal-500/20 text-teal-400',
+    ring: 'ring-teal-500',
+    button: 'bg-teal-500/20 hover:bg-teal-500/30',
+    icon: 'text-teal-400',
+    filter: 'bg-teal-500/30',
+  },
+  purple: {
+    card: 'border-purple-500 bg-purple-500/10',
+    badge: 'bg-purple-500/20 text-purple-400',
+    ring: 'ring-purple-500',
+    button: 'bg-purple-500/20 hover:bg-purple-500/30',
+    icon: 'text-purple-400',
+    filter: 'bg-purple-500/30',
+  },
+};
 
 interface UploadSetupProps {
   onComplete: (
-    file: File,
+    files: File[],
+    importOptions: DeckImportOptions,
     voiceId: string,
+    targetLanguages: TargetLanguage[],
     ttsProvider: TTSProvider,
-    selectedModel: string,
-    apiKeys: { openRouter: string; lemonfox: string }
+    llm: LLMSettings,
+    promptTemplate: PromptTemplate,
+    apiKeys: { lemonfox: string }
   ) => void;
 }
 
 export const UploadSetup: React.FC<UploadSetupProps> = ({ onComplete }) => {
-  const [file, setFile] = useState<File | null>(null);
-  const [selectedVoice, setSelectedVoice] = useState('neural:Joanna');
+  const [importMode, setImportMode] = useState<'file' | 'images'>('file');
+  const [files, setFiles] = useState<File[]>([]);
+  const [pageRange, setPageRange] = useState('');
+  // Chosen voice per language code; languages without a choice use their first voice
+  const [voiceByLanguage, setVoiceByLanguage] = useState<Record<string, string>>({});
+  const [targetLanguageCodes, setTargetLanguageCodes] = useState<string[]>([]);
+  const [voiceTab, setVoiceTab] = useState<string | null>(null);
   const [ttsProvider, setTtsProvider] = useState<TTSProvider>('putertts');
-  const [selectedModel, setSelectedModel] = useState(DEFAULT_MODEL);
-  const [openRouterKey, setOpenRouterKey] = useState('');
+  const [llmSettings, setLlmSettings] = useState<LLMSettings>(DEFAULT_LLM_SETTINGS);
+  const [modelCatalog, setModelCatalog] = useState<ModelCatalog | null>(null);
+  const [isRefreshingCatalog, setIsRefreshingCatalog] = useState(false);
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>(() =>
+    PromptTemplateService.loadTemplates()
+  );
+  const [selectedTemplateId, setSelectedTemplateId] = useState(() =>
+    PromptTemplateService.loadSelectedId(promptTemplates)
+  );
+  const [isEditingTemplate, setIsEditingTemplate] = useState(false);
   const [lemonfoxKey, setLemonfoxKey] = useState('');
   const [isPlayingPreview, setIsPlayingPreview] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [filterRegion, setFilterRegion] = useState<'ALL' | 'US' | 'UK' | 'AU' | 'IN'>('ALL');
-  const [webSpeechVoices, setWebSpeechVoices] = useState<SpeechSynthesisVoice[]>([]);
-  const [puterTTSVoices, setPuterTTSVoices] = useState<PuterTTSVoice[]>([]);
+  const [filterRegion, setFilterRegion] = useState('ALL');
+  const [voices, setVoices] = useState<TTSVoice[]>([]);
+  const [isLoadingVoices, setIsLoadingVoices] = useState(true);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const ttsInfo = getTTSProvider(ttsProvider);
 
   // Load voices based on TTS provider
   useEffect(() => {
-    if (ttsProvider === 'webspeech' && WebSpeechService.isSupported()) {
-      const loadVoices = () => {
-        const voices = WebSpeechService.getAvailableVoices();
-        setWebSpeechVoices(voices);
-        if (voices.length > 0 && !selectedVoice) {
-          setSelectedVoice(voices[0].voiceURI || voices[0].name);
-        }
-      };
-
-      loadVoices();
-      window.speechSynthesis.onvoiceschanged = loadVoices;
-    } else if (ttsProvider === 'putertts') {
-      // Load Puter TTS voices
-      const loadPuterVoices = async () => {
-        const voices = await PuterTTSService.getAvailableVoices();
-        setPuterTTSVoices(voices);
-      };
-      loadPuterVoices();
-    }
+    let cancelled = false;
+    const engine = createTTSEngine(ttsProvider, { lemonfox: '' });
+
+    engine
+      .listVoices()
+      .catch((err) => {
+        console.warn(`Could not load ${ttsProvider} voices:`, err);
+        return [];
+      })
+      .then((list) => {
+        if (cancelled) return;
+        setVoices(list);
+        setIsLoadingVoices(false);
+      })
+      .finally(() => engine.cleanup());
+
+    return () => {
+      cancelled = true;
+    };
   }, [ttsProvider]);
 
+  const handleTtsProviderChange = (provider: TTSProvider) => {
+    if (provider === ttsProvider) return;
+    setTtsProvider(provider);
+    setVoiceByLanguage({});
+    setVoices([]);
+    setIsLoadingVoices(true);
+  };
+
+  // OpenRouter's live model list replaces the built-in suggestions
+  useEffect(() => {
+    if (llmSettings.provider !== 'openrouter' || modelCatalog) return;
+    ModelCatalogService.loadCatalog().then(setModelCatalog);
+  }, [llmSettings.provider, modelCatalog]);
+
+  const handleRefreshCatalog = async () => {
+    setIsRefreshingCatalog(true);
+    setModelCatalog(await ModelCatalogService.loadCatalog(true));
+    setIsRefreshingCatalog(false);
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (!selectedFile) return;
+    const selectedFiles = Array.from(e.target.files || []);
+    if (selectedFiles.length === 0) return;
 
     // Validate file type
-    if (selectedFile.type !== 'application/pdf') {
-      setError('Please select a valid PDF file');
+    const formats = selectedFiles.map((f) => DeckImportService.detectFormat(f));
+    if (importMode === 'file' && (formats[0] === null || formats[0] === 'images')) {
+      setError('Please select a PDF or PowerPoint (.pptx) file');
+      return;
+    }
+    if (importMode === 'images' && formats.some((format) => format !== 'images')) {
+      setError('Please select PNG, JPEG or WebP images, or a zip of them');
       return;
     }
 
     // Validate file size
     const maxSizeBytes = API_CONFIG.upload.maxSizeMB * 1024 * 1024;
-    if (selectedFile.size > maxSizeBytes) {
-      setError(`File size must be under ${API_CONFIG.upload.maxSizeMB}MB`);
+    const totalSize = selectedFiles.reduce((sum, f) => sum + f.size, 0);
+    if (totalSize > maxSizeBytes) {
+      setError(`Upload size must be under ${API_CONFIG.upload.maxSizeMB}MB`);
       return;
     }
 
-    setFile(selectedFile);
+    setFiles(selectedFiles);
     setError(null);
   };
 
+  const handleImportModeChange = (mode: 'file' | 'images') => {
+    setImportMode(mode);
+    setFiles([]);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const llmProvider = getLLMProvider(llmSettings.provider);
+  const catalogModels = llmSettings.provider === 'openrouter' ? modelCatalog?.models : undefined;
+  const selectedCatalogModel = catalogModels?.find((m) => m.id === llmSettings.model.trim());
+  const modelSuggestions = catalogModels
+    ? catalogModels.map((m) => ({
+        id: m.id,
+        name: m.pricing ? `${m.name} - ${ModelCatalogService.formatPricing(m.pricing)}` : m.name,
+      }))
+    : llmProvider.models;
+  const llmReady = !!llmSettings.model.trim() && (!llmProvider.requiresApiKey || !!llmSettings.apiKey);
+
+  const handleLLMProviderChange = (providerId: LLMProviderId) => {
+    const provider = getLLMProvider(providerId);
+    setLlmSettings({
+      provider: providerId,
+      apiKey: '',
+      baseUrl: provider.defaultBaseUrl,
+      model: provider.defaultModel,
+    });
+  };
+
+  const selectedTemplate =
+    promptTemplates.find((t) => t.id === selectedTemplateId) || promptTemplates[0];
+
+  // Scripts are written in the template's language; empty when it is not one we list
+  const sourceLanguage = findLanguage(selectedTemplate.variables.language)?.code || '';
+  const targetCodes = targetLanguageCodes.filter((code) => code !== sourceLanguage);
+  const voiceLanguage = voiceTab && targetCodes.includes(voiceTab) ? voiceTab : sourceLanguage;
+
+  const getLanguageVoiceIds = (code: string): string[] => {
+    return voices.filter((v) => !code || matchesLanguage(v.locale, code)).map((v) => v.id);
+  };
+
+  const getVoiceFor = (code: string) => voiceByLanguage[code] || getLanguageVoiceIds(code)[0] || '';
+  const selectedVoice = getVoiceFor(voiceLanguage);
+  const setSelectedVoice = (voiceId: string) =>
+    setVoiceByLanguage((prev) => ({ ...prev, [voiceLanguage]: voiceId }));
+
+  const handleToggleTargetLanguage = (code: string) => {
+    setTargetLanguageCodes((prev) =>
+      prev.includes(code) ? prev.filter((c) => c !== code) : [...prev, code]
+    );
+  };
+
+  const saveTemplates = (templates: PromptTemplate[], selectedId: string) => {
+    setPromptTemplates(templates);
+    setSelectedTemplateId(selectedId);
+    PromptTemplateService.saveTemplates(templates);
+    PromptTemplateService.saveSelectedId(selectedId);
+  };
+
+  const handleTemplateChange = (changes: Partial<Omit<PromptTemplate, 'variables'>>) => {
+    saveTemplates(
+      promptTemplates.map((t) => (t.id === selectedTemplate.id ? { ...t, ...changes } : t)),
+      selectedTemplate.id
+    );
+  };
+
+  const handleTemplateVariableChange = (name: keyof PromptVariables, value: string) => {
+    const variables = {
+      ...selectedTemplate.variables,
+      [name]: name === 'targetWords' ? Math.max(10, Number(value) || 0) : value,
+    };
+    saveTemplates(
+      promptTemplates.map((t) => (t.id === selectedTemplate.id ? { ...t, variables } : t)),
+      selectedTemplate.id
+    );
+  };
+
+  const handleDuplicateTemplate = () => {
+    const copy = PromptTemplateService.createTemplate(selectedTemplate);
+    saveTemplates([...promptTemplates, copy], copy.id);
+    setIsEditingTemplate(true);
+  };
+
+  const handleDeleteTemplate = () => {
+    const remaining = promptTemplates.filter((t) => t.id !== selectedTemplate.id);
+    saveTemplates(remaining, remaining[0].id);
+  };
+
+  const handleResetTemplates = () => {
+    const defaults = PromptTemplateService.resetTemplates();
+    setPromptTemplates(defaults);
+    setSelectedTemplateId(defaults[0].id);
+  };
+
   const handleVoicePreview = async (voiceId: string) => {
     setIsPlayingPreview(true);
     setError(null);
 
+    const engine = createTTSEngine(ttsProvider, { lemonfox: lemonfoxKey });
     try {
-      if (ttsProvider === 'webspeech') {
-        const service = new WebSpeechService();
-        await service.createPreviewAudio(voiceId);
-        setIsPlayingPreview(false);
-      } else if (ttsProvider === 'putertts') {
-        const service = new PuterTTSService();
-        await service.createPreviewAudio(voiceId);
-        setIsPlayingPreview(false);
-      } else {
-        if (!lemonfoxKey) {
-          setError('Please enter your Lemonfox API key first');
-          setIsPlayingPreview(false);
-          return;
-        }
-
-        const ttsService = new TTSService(lemonfoxKey);
-        const audioUrl = await ttsService.createPreviewAudio(voiceId);
-
-        if (audioRef.current) {
-          audioRef.current.pause();
-        }
-
-        audioRef.current = new Audio(audioUrl);
-        audioRef.current.onended = () => setIsPlayingPreview(false);
-        await audioRef.current.play();
-      }
+      await engine.preview(voiceId);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to preview voice');
+    } finally {
+      engine.cleanup();
       setIsPlayingPreview(false);
     }
   };
 
   const handleSubmit = () => {
-    if (!file) {
-      setError('Please select a PDF file');
+    if (files.length === 0) {
+      setError(importMode === 'file' ? 'Please select a PDF or PowerPoint file' : 'Please select slide images');
       return;
     }
 
-    if (!openRouterKey) {
-      setError('Please enter your OpenRouter API key');
+    if (!isValidPageRange(pageRange)) {
+      setError('Please enter pages like "3-18, 22" or leave the page range empty');
       return;
     }
 
-    if (ttsProvider === 'lemonfox' && !lemonfoxKey) {
+    if (llmProvider.requiresApiKey && !llmSettings.apiKey) {
+      setError(`Please enter your ${llmProvider.name} API key`);
+      return;
+    }
+
+    if (!llmSettings.baseUrl.trim() || !llmSettings.model.trim()) {
+      setError('Please enter the endpoint URL and model for script generation');
+      return;
+    }
+
+    if (ttsInfo.capabilities.requiresApiKey && !lemonfoxKey) {
       setError('Please enter your Lemonfox API key or switch to Puter TTS (Free)');
       return;
     }
 
-    onComplete(file, selectedVoice, ttsProvider, selectedModel, {
-      openRouter: openRouterKey,
-      lemonfox: lemonfoxKey,
-    });
+    const unvoiced = [sourceLanguage, ...targetCodes].filter((code) => !getVoiceFor(code));
+    if (unvoiced.length > 0) {
+      const names = unvoiced.map((code) => (code ? getLanguage(code).name : selectedTemplate.variables.language));
+      setError(`No voice for ${names.join(', ')} with this TTS provider - choose another provider or language`);
+      return;
+    }
+
+    onComplete(
+      files,
+      { pageRange },
+      getVoiceFor(sourceLanguage),
+      targetCodes.map((code) => ({ code, voiceId: getVoiceFor(code) })),
+      ttsProvider,
+      {
+        ...llmSettings,
+        baseUrl: llmSettings.baseUrl.trim(),
+        model: llmSettings.model.trim(),
+        pricing: selectedCatalogModel?.pricing,
+      },
+      selectedTemplate,
+      { lemonfox: lemonfoxKey }
+    );
   };
 
-  const lemonfoxVoices: VoiceProfile[] = VOICE_PROFILES.filter(
-    (v) => filterRegion === 'ALL' || v.region === filterRegion
+  // Regions only split up the English voices
+  const showRegions = !voiceLanguage || voiceLanguage === 'en';
+  const region = showRegions ? filterRegion : 'ALL';
+  const accent = ACCENT_CLASSES[ttsInfo.accent];
+  const shownVoices = voices.filter(
+    (v) =>
+      (!voiceLanguage || matchesLanguage(v.locale, voiceLanguage)) &&
+      (region === 'ALL' || v.locale === REGION_LOCALES[region])
   );
 
   return (
@@ -147,134 +347,110 @@ export const UploadSetup: React.FC<UploadSetupProps> = ({ onComplete }) => {
           Deck Narrator
         </h1>
         <p className="text-gray-300 text-lg">
-          Transform your PDF presentations into AI-narrated videos
+          Transform your PDF and PowerPoint presentations into AI-narrated videos
         </p>
       </div>
 
       {/* TTS Provider Selection */}
       <div className="glass-card p-6 space-y-4">
         <h2 className="text-2xl font-semibold text-white mb-4">Choose TTS Provider</h2>
-        <div className="grid md:grid-cols-3 gap-4">
-          <button
-            onClick={() => {
-              setTtsProvider('webspeech');
-              setSelectedVoice('');
-            }}
-            className={`p-6 rounded-xl border-2 transition-all ${
-              ttsProvider === 'webspeech'
-                ? 'border-green-500 bg-green-500/10'
-                : 'border-glass-border bg-glass-bg hover:bg-glass-hover'
-            }`}
-          >
-            <div className="text-left space-y-2">
-              <div className="flex items-center gap-2">
-                <span className="text-2xl">🆓</span>
-                <h3 className="text-xl font-semibold text-white">Web Speech API</h3>
-                <span className="text-xs bg-green-500/20 text-green-400 px-2 py-1 rounded-full">
-                  FREE
-                </span>
-              </div>
-              <p className="text-sm text-gray-400">
-                Browser-based TTS • No API key needed • Works offline
-              </p>
-              <ul className="text-xs text-gray-500 space-y-1">
-                <li>✓ Completely free</li>
-                <li>✓ No limits</li>
-                <li>✓ Perfect for testing scripts</li>
-                <li>⚠️ Cannot generate videos - preview only</li>
-                <li>• Voice quality varies by browser/OS</li>
-              </ul>
-            </div>
-          </button>
-
-          <button
-            onClick={() => {
-              setTtsProvider('putertts');
-              setSelectedVoice('neural:Joanna');
-            }}
-            className={`p-6 rounded-xl border-2 transition-all ${
-              ttsProvider === 'putertts'
-                ? 'border-blue-500 bg-blue-500/10'
-                : 'border-glass-border bg-glass-bg hover:bg-glass-hover'
-            }`}
-          >
-            <div className="text-left space-y-2">
-              <div className="flex items-center gap-2">
-                <span className="text-2xl">🚀</span>
-                <h3 className="text-xl font-semibold text-white">Puter TTS</h3>
-                <span className="text-xs bg-blue-500/20 text-blue-400 px-2 py-1 rounded-full">
-                  FREE
-                </span>
-              </div>
-              <p className="text-sm text-gray-400">
-                Amazon Polly voices • No API key • Generates videos
-              </p>
-              <ul className="text-xs text-gray-500 space-y-1">
-                <li>✓ Completely free</li>
-                <li>✓ Unlimited usage</li>
-                <li>✓ 17+ neural voices</li>
-                <li>✓ Generates videos successfully</li>
-                <li>✓ High quality neural & generative voices</li>
-              </ul>
-            </div>
-          </button>
-
-          <button
-            onClick={() => {
-              setTtsProvider('lemonfox');
-              setSelectedVoice(DEFAULT_VOICE);
-            }}
-            className={`p-6 rounded-xl border-2 transition-all ${
-              ttsProvider === 'lemonfox'
-                ? 'border-purple-500 bg-purple-500/10'
-                : 'border-glass-border bg-glass-bg hover:bg-glass-hover'
-            }`}
-          >
-            <div className="text-left space-y-2">
-              <div className="flex items-center gap-2">
-                <span className="text-2xl">⭐</span>
-                <h3 className="text-xl font-semibold text-white">Lemonfox TTS</h3>
-                <span className="text-xs bg-purple-500/20 text-purple-400 px-2 py-1 rounded-full">
-                  PREMIUM
-                </span>
+        <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {TTS_PROVIDERS.map((provider) => (
+            <button
+              key={provider.id}
+              onClick={() => handleTtsProviderChange(provider.id)}
+              className={`p-6 rounded-xl border-2 transition-all ${
+                ttsProvider === provider.id
+                  ? ACCENT_CLASSES[provider.accent].card
+                  : 'border-glass-border bg-glass-bg hover:bg-glass-hover'
+              }`}
+            >
+              <div className="text-left space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-2xl">{provider.icon}</span>
+                  <h3 className="text-xl font-semibold text-white">{provider.name}</h3>
+                  <span className={`text-xs px-2 py-1 rounded-full ${ACCENT_CLASSES[provider.accent].badge}`}>
+                    {provider.badge}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-400">{provider.summary}</p>
+                <ul className="text-xs text-gray-500 space-y-1">
+                  {provider.features.map((feature) => (
+                    <li key={feature}>{feature}</li>
+                  ))}
+                </ul>
               </div>
-              <p className="text-sm text-gray-400">
-                Professional TTS • API key required • 28 premium voices
-              </p>
-              <ul className="text-xs text-gray-500 space-y-1">
-                <li>✓ Studio-quality voices</li>
-                <li>✓ 28 voice profiles</li>
-                <li>✓ Required for video generation</li>
-                <li>✓ Consistent quality</li>
-                <li>• Requires API key</li>
-              </ul>
-            </div>
-          </button>
+            </button>
+          ))}
         </div>
       </div>
 
       {/* API Keys Section */}
       <div className="glass-card p-6 space-y-4">
         <h2 className="text-2xl font-semibold text-white mb-4">API Configuration</h2>
+
+        {/* Script Generation Provider */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Script Generation Provider
+          </label>
+          <div className="grid md:grid-cols-4 gap-2">
+            {LLM_PROVIDERS.map((provider) => (
+              <button
+                key={provider.id}
+                onClick={() => handleLLMProviderChange(provider.id)}
+                className={`p-3 rounded-lg border-2 text-left transition-all ${
+                  llmSettings.provider === provider.id
+                    ? 'border-purple-500 bg-purple-500/10'
+                    : 'border-glass-border bg-glass-bg hover:bg-glass-hover'
+                }`}
+              >
+                <p className="text-sm font-semibold text-white">{provider.name}</p>
+                <p className="text-xs text-gray-400 mt-1">{provider.description}</p>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {llmProvider.baseUrlEditable && (
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Endpoint URL <span className="text-red-400">*</span>
+            </label>
+            <input
+              type="url"
+              value={llmSettings.baseUrl}
+              onChange={(e) => setLlmSettings((prev) => ({ ...prev, baseUrl: e.target.value }))}
+              placeholder={llmProvider.defaultBaseUrl}
+              className="glass-input"
+            />
+            <p className="text-xs text-gray-400 mt-1">
+              Base URL of an OpenAI-compatible API (the part before /chat/completions) • The server
+              must allow requests from this page (e.g. OLLAMA_ORIGINS=*)
+            </p>
+          </div>
+        )}
+
         <div className="grid md:grid-cols-2 gap-4">
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-2">
-              OpenRouter API Key <span className="text-red-400">*</span>
+              {llmProvider.name} API Key {llmProvider.requiresApiKey && <span className="text-red-400">*</span>}
             </label>
             <input
               type="password"
-              value={openRouterKey}
-              onChange={(e) => setOpenRouterKey(e.target.value)}
-              placeholder="sk-or-..."
+              value={llmSettings.apiKey}
+              onChange={(e) => setLlmSettings((prev) => ({ ...prev, apiKey: e.target.value }))}
+              placeholder={llmProvider.keyPlaceholder}
               className="glass-input"
             />
             <p className="text-xs text-gray-400 mt-1">
-              Used for AI script generation • Get at openrouter.ai
+              Used for AI script generation
+              {llmProvider.requiresApiKey ? '' : ' • Only needed if your server checks keys'}
             </p>
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-2">
-              Lemonfox TTS API Key {ttsProvider === 'lemonfox' && <span className="text-red-400">*</span>}
+              Lemonfox TTS API Key {ttsInfo.capabilities.requiresApiKey && <span className="text-red-400">*</span>}
             </label>
             <input
               type="password"
@@ -282,12 +458,12 @@ export const UploadSetup: React.FC<UploadSetupProps> = ({ onComplete }) => {
               onChange={(e) => setLemonfoxKey(e.target.value)}
               placeholder="lf-..."
               className="glass-input"
-              disabled={ttsProvider === 'webspeech'}
+              disabled={!ttsInfo.capabilities.requiresApiKey}
             />
             <p className="text-xs text-gray-400 mt-1">
-              {ttsProvider === 'webspeech'
-                ? 'Not needed for Web Speech API'
-                : 'Used for text-to-speech • Get at lemonfox.ai'}
+              {ttsInfo.capabilities.requiresApiKey
+                ? 'Used for text-to-speech • Get at lemonfox.ai'
+                : `Not needed for ${ttsInfo.name}`}
             </p>
           </div>
         </div>
@@ -297,26 +473,186 @@ export const UploadSetup: React.FC<UploadSetupProps> = ({ onComplete }) => {
           <label className="block text-sm font-medium text-gray-300 mb-2">
             AI Model for Script Generation <span className="text-red-400">*</span>
           </label>
+          <input
+            type="text"
+            list="llm-models"
+            value={llmSettings.model}
+            onChange={(e) => setLlmSettings((prev) => ({ ...prev, model: e.target.value }))}
+            placeholder={llmProvider.defaultModel}
+            className="glass-input"
+          />
+          <datalist id="llm-models">
+            {modelSuggestions.map((model) => (
+              <option key={model.id} value={model.id}>
+                {model.name}
+              </option>
+            ))}
+          </datalist>
+          <p className="text-xs text-gray-400 mt-1">
+            Pick a suggestion or enter any model id the provider serves • It must accept images
+          </p>
+          {llmSettings.provider === 'openrouter' && (
+            <div className="flex items-center justify-between gap-4 mt-2 text-xs">
+              <span className={selectedCatalogModel?.pricing ? 'text-green-400' : 'text-gray-500'}>
+                {selectedCatalogModel?.pricing
+                  ? ModelCatalogService.formatPricing(selectedCatalogModel.pricing)
+                  : 'Pricing unknown for this model'}
+              </span>
+              <span className="flex items-center gap-2 text-gray-500">
+                {!modelCatalog
+                  ? 'Loading model list...'
+                  : modelCatalog.fetchedAt === null
+                  ? 'Offline - built-in model list'
+                  : `${modelCatalog.models.length} vision models • ${
+                      modelCatalog.stale ? 'offline, cached' : 'updated'
+                    } ${new Date(modelCatalog.fetchedAt).toLocaleString()}`}
+                <button
+                  onClick={handleRefreshCatalog}
+                  disabled={isRefreshingCatalog}
+                  className="text-purple-400 hover:text-purple-300 disabled:opacity-50"
+                >
+                  {isRefreshingCatalog ? 'Refreshing...' : 'Refresh'}
+                </button>
+              </span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Narration Style Section */}
+      <div className="glass-card p-6 space-y-4">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-semibold text-white">Narration Style</h2>
+          <button
+            onClick={() => setIsEditingTemplate((prev) => !prev)}
+            className="glass-button text-sm"
+          >
+            {isEditingTemplate ? 'Done' : '✏️ Edit Template'}
+          </button>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Prompt Template</label>
           <select
-            value={selectedModel}
-            onChange={(e) => setSelectedModel(e.target.value)}
+            value={selectedTemplate.id}
+            onChange={(e) => saveTemplates(promptTemplates, e.target.value)}
             className="glass-input"
           >
-            {OPENROUTER_MODELS.map((model) => (
-              <option key={model.id} value={model.id}>
-                {model.name} {model.free ? '(Free)' : ''} - {model.description}
+            {promptTemplates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
               </option>
             ))}
           </select>
           <p className="text-xs text-gray-400 mt-1">
-            Choose the AI model for analyzing slides and generating narration scripts
+            For {selectedTemplate.variables.audience} • {selectedTemplate.variables.tone} •
+            under {selectedTemplate.variables.targetWords} words • {selectedTemplate.variables.language}
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Also narrate in</label>
+          <div className="flex flex-wrap gap-2">
+            {NARRATION_LANGUAGES.filter((language) => language.code !== sourceLanguage).map((language) => (
+              <button
+                key={language.code}
+                onClick={() => handleToggleTargetLanguage(language.code)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                  targetCodes.includes(language.code)
+                    ? 'bg-purple-500/30 text-white'
+                    : 'bg-glass-bg text-gray-400 hover:text-white'
+                }`}
+              >
+                {language.name} ({language.nativeName})
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400 mt-1">
+            Approved scripts are translated in review and one video is rendered per language
           </p>
         </div>
+
+        {isEditingTemplate && (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Name</label>
+              <input
+                type="text"
+                value={selectedTemplate.name}
+                onChange={(e) => handleTemplateChange({ name: e.target.value })}
+                className="glass-input"
+              />
+            </div>
+            <div className="grid md:grid-cols-2 gap-4">
+              {PROMPT_VARIABLE_NAMES.map((name) => (
+                <div key={name}>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    {name === 'targetWords' ? 'Target length (words)' : name.charAt(0).toUpperCase() + name.slice(1)}
+                  </label>
+                  <input
+                    type={name === 'targetWords' ? 'number' : 'text'}
+                    min={name === 'targetWords' ? 10 : undefined}
+                    value={selectedTemplate.variables[name]}
+                    onChange={(e) => handleTemplateVariableChange(name, e.target.value)}
+                    className="glass-input"
+                  />
+                </div>
+              ))}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Prompt</label>
+              <textarea
+                value={selectedTemplate.prompt}
+                onChange={(e) => handleTemplateChange({ prompt: e.target.value })}
+                className="glass-textarea h-48 text-sm"
+              />
+              <p className="text-xs text-gray-400 mt-1">
+                Use {PROMPT_VARIABLE_NAMES.map((name) => `{{${name}}}`).join(', ')} to insert the
+                values above • Changes are saved in this browser
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={handleDuplicateTemplate} className="glass-button text-sm">
+                Duplicate
+              </button>
+              <button
+                onClick={handleDeleteTemplate}
+                disabled={promptTemplates.length <= 1}
+                className="glass-button text-sm disabled:opacity-50"
+              >
+                Delete
+              </button>
+              <button onClick={handleResetTemplates} className="glass-button text-sm">
+                Reset to Defaults
+              </button>
+            </div>
+          </div>
+        )}
       </div>
 
-      {/* PDF Upload Section */}
+      {/* Deck Upload Section */}
       <div className="glass-card p-6 space-y-4">
-        <h2 className="text-2xl font-semibold text-white mb-4">Upload Presentation</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-semibold text-white">Upload Presentation</h2>
+          <div className="flex gap-2">
+            {([
+              ['file', 'PDF / PowerPoint'],
+              ['images', 'Slide Images'],
+            ] as const).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => handleImportModeChange(mode)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                  importMode === mode
+                    ? 'bg-purple-500/30 text-white'
+                    : 'bg-glass-bg text-gray-400 hover:text-white'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
         <div
           className="border-2 border-dashed border-glass-border rounded-xl p-12 text-center cursor-pointer
                      hover:border-purple-500/50 hover:bg-glass-hover transition-all duration-300"
@@ -325,7 +661,8 @@ export const UploadSetup: React.FC<UploadSetupProps> = ({ onComplete }) => {
           <input
             ref={fileInputRef}
             type="file"
-            accept=".pdf"
+            accept={importMode === 'file' ? DeckImportService.ACCEPT : DeckImportService.ACCEPT_IMAGES}
+            multiple={importMode === 'images'}
             onChange={handleFileChange}
             className="hidden"
           />
@@ -343,11 +680,25 @@ export const UploadSetup: React.FC<UploadSetupProps> = ({ onComplete }) => {
                 strokeLinejoin="round"
               />
             </svg>
-            {file ? (
+            {files.length > 0 ? (
+              <div>
+                <p className="text-green-400 font-medium">
+                  {files.length === 1 ? files[0].name : `${files.length} files selected`}
+                </p>
+                <p className="text-gray-400 text-sm">
+                  {(files.reduce((sum, f) => sum + f.size, 0) / 1024 / 1024).toFixed(2)} MB
+                </p>
+              </div>
+            ) : importMode === 'images' ? (
               <div>
-                <p className="text-green-400 font-medium">{file.name}</p>
+                <p className="text-gray-300 text-lg">
+                  Click to select slide images or a zip
+                </p>
                 <p className="text-gray-400 text-sm">
-                  {(file.size / 1024 / 1024).toFixed(2)} MB
+                  PNG, JPEG or WebP exports from Keynote, Figma or Google Slides
+                </p>
+                <p className="text-gray-500 text-xs mt-1">
+                  Slides are ordered by filename (slide2 before slide10)
                 </p>
               </div>
             ) : (
@@ -356,44 +707,47 @@ export const UploadSetup: React.FC<UploadSetupProps> = ({ onComplete }) => {
                   Click to upload or drag and drop
                 </p>
                 <p className="text-gray-400 text-sm">
-                  PDF files up to {API_CONFIG.upload.maxSizeMB}MB
+                  PDF or PPTX files up to {API_CONFIG.upload.maxSizeMB}MB
+                </p>
+                <p className="text-gray-500 text-xs mt-1">
+                  PowerPoint speaker notes are used as the narration script
                 </p>
               </div>
             )}
           </div>
         </div>
+
+        {/* Page Range */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Pages to import
+          </label>
+          <input
+            type="text"
+            value={pageRange}
+            onChange={(e) => setPageRange(e.target.value)}
+            placeholder="All pages (e.g. 3-18, 22)"
+            className="glass-input"
+          />
+          <p className={`text-xs mt-1 ${isValidPageRange(pageRange) ? 'text-gray-400' : 'text-red-400'}`}>
+            Leave empty to import every page • Use ranges to drop appendix and backup slides
+          </p>
+        </div>
       </div>
 
       {/* Voice Selection Section */}
       <div className="glass-card p-6 space-y-4">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-2xl font-semibold text-white">Select Voice</h2>
-          {ttsProvider === 'lemonfox' && (
+          {ttsInfo.regions.length > 0 && showRegions && (
             <div className="flex gap-2">
-              {(['ALL', 'US', 'UK'] as const).map((region) => (
+              {['ALL', ...ttsInfo.regions].map((region) => (
                 <button
                   key={region}
                   onClick={() => setFilterRegion(region)}
                   className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
                     filterRegion === region
-                      ? 'bg-purple-500/30 text-white'
-                      : 'bg-glass-bg text-gray-400 hover:text-white'
-                  }`}
-                >
-                  {region}
-                </button>
-              ))}
-            </div>
-          )}
-          {ttsProvider === 'putertts' && (
-            <div className="flex gap-2">
-              {(['ALL', 'US', 'UK', 'AU', 'IN'] as const).map((region) => (
-                <button
-                  key={region}
-                  onClick={() => setFilterRegion(region)}
-                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
-                    filterRegion === region
-                      ? 'bg-blue-500/30 text-white'
+                      ? `${accent.filter} text-white`
                       : 'bg-glass-bg text-gray-400 hover:text-white'
                   }`}
                 >
@@ -404,12 +758,32 @@ export const UploadSetup: React.FC<UploadSetupProps> = ({ onComplete }) => {
           )}
         </div>
 
+        {targetCodes.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-gray-400">Voice for</span>
+            {[sourceLanguage, ...targetCodes].map((code) => (
+              <button
+                key={code}
+                onClick={() => setVoiceTab(code)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                  voiceLanguage === code
+                    ? 'bg-purple-500/30 text-white'
+                    : 'bg-glass-bg text-gray-400 hover:text-white'
+                }`}
+              >
+                {code ? getLanguage(code).name : selectedTemplate.variables.language}
+                {code === sourceLanguage && ' (source)'}
+              </button>
+            ))}
+          </div>
+        )}
+
         <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4 max-h-96 overflow-y-auto pr-2">
-          {ttsProvider === 'lemonfox' && lemonfoxVoices.map((voice: VoiceProfile) => (
+          {shownVoices.map((voice) => (
             <div
               key={voice.id}
               className={`glass-card-hover p-4 cursor-pointer ${
-                selectedVoice === voice.id ? 'ring-2 ring-purple-500' : ''
+                selectedVoice === voice.id ? `ring-2 ${accent.ring}` : ''
               }`}
               onClick={() => setSelectedVoice(voice.id)}
             >
@@ -417,9 +791,11 @@ export const UploadSetup: React.FC<UploadSetupProps> = ({ onComplete }) => {
                 <div className="flex-1">
                   <h3 className="font-semibold text-white">{voice.name}</h3>
                   <p className="text-sm text-gray-400">
-                    {voice.gender} • {voice.region}
+                    {voice.gender ? `${voice.gender} • ${voice.locale}` : voice.locale}
                   </p>
-                  <p className="text-xs text-gray-500 mt-2">{voice.description}</p>
+                  {voice.description && (
+                    <p className="text-xs text-gray-500 mt-2">{voice.description}</p>
+                  )}
                 </div>
                 <button
                   onClick={(e) => {
@@ -427,11 +803,11 @@ export const UploadSetup: React.FC<UploadSetupProps> = ({ onComplete }) => {
                     handleVoicePreview(voice.id);
                   }}
                   disabled={isPlayingPreview}
-                  className="ml-2 p-2 rounded-lg bg-purple-500/20 hover:bg-purple-500/30
-                           disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                  className={`ml-2 p-2 rounded-lg ${accent.button}
+                           disabled:opacity-50 disabled:cursor-not-allowed transition-all`}
                 >
                   <svg
-                    className="w-5 h-5 text-purple-400"
+                    className={`w-5 h-5 ${accent.icon}`}
                     fill="currentColor"
                     viewBox="0 0 20 20"
                   >
@@ -441,88 +817,22 @@ export const UploadSetup: React.FC<UploadSetupProps> = ({ onComplete }) => {
               </div>
             </div>
           ))}
+        </div>
 
-          {ttsProvider === 'putertts' && puterTTSVoices
-            .filter((v) => filterRegion === 'ALL' || v.locale.startsWith(`en-${filterRegion}`))
-            .map((voice) => (
-            <div
-              key={voice.id}
-              className={`glass-card-hover p-4 cursor-pointer ${
-                selectedVoice === voice.id ? 'ring-2 ring-blue-500' : ''
-              }`}
-              onClick={() => setSelectedVoice(voice.id)}
-            >
-              <div className="flex items-start justify-between">
-                <div className="flex-1">
-                  <h3 className="font-semibold text-white">{voice.name}</h3>
-                  <p className="text-sm text-gray-400">
-                    {voice.gender} • {voice.locale}
-                  </p>
-                </div>
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    handleVoicePreview(voice.id);
-                  }}
-                  disabled={isPlayingPreview}
-                  className="ml-2 p-2 rounded-lg bg-blue-500/20 hover:bg-blue-500/30
-                           disabled:opacity-50 disabled:cursor-not-allowed transition-all"
-                >
-                  <svg
-                    className="w-5 h-5 text-blue-400"
-                    fill="currentColor"
-                    viewBox="0 0 20 20"
-                  >
-                    <path d="M6.3 2.841A1.5 1.5 0 004 4.11V15.89a1.5 1.5 0 002.3 1.269l9.344-5.89a1.5 1.5 0 000-2.538L6.3 2.84z" />
-                  </svg>
-                </button>
-              </div>
-            </div>
-          ))}
+        {voiceLanguage && getLanguageVoiceIds(voiceLanguage).length === 0 && voices.length > 0 && (
+          <div className="text-center py-8 text-gray-400">
+            No voices for {getLanguage(voiceLanguage).name} with this TTS provider - choose another provider
+          </div>
+        )}
 
-          {ttsProvider === 'webspeech' && webSpeechVoices.map((voice) => (
-            <div
-              key={voice.voiceURI}
-              className={`glass-card-hover p-4 cursor-pointer ${
-                selectedVoice === (voice.voiceURI || voice.name) ? 'ring-2 ring-green-500' : ''
-              }`}
-              onClick={() => setSelectedVoice(voice.voiceURI || voice.name)}
-            >
-              <div className="flex items-start justify-between">
-                <div className="flex-1">
-                  <h3 className="font-semibold text-white">{voice.name}</h3>
-                  <p className="text-sm text-gray-400">
-                    {voice.lang}
-                  </p>
-                  <p className="text-xs text-gray-500 mt-1">
-                    {voice.localService ? 'Local' : 'Remote'}
-                  </p>
-                </div>
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    handleVoicePreview(voice.voiceURI || voice.name);
-                  }}
-                  disabled={isPlayingPreview}
-                  className="ml-2 p-2 rounded-lg bg-green-500/20 hover:bg-green-500/30
-                           disabled:opacity-50 disabled:cursor-not-allowed transition-all"
-                >
-                  <svg
-                    className="w-5 h-5 text-green-400"
-                    fill="currentColor"
-                    viewBox="0 0 20 20"
-                  >
-                    <path d="M6.3 2.841A1.5 1.5 0 004 4.11V15.89a1.5 1.5 0 002.3 1.269l9.344-5.89a1.5 1.5 0 000-2.538L6.3 2.84z" />
-                  </svg>
-                </button>
-              </div>
-            </div>
-          ))}
-        </div>
+        {isLoadingVoices && (
+          <div className="text-center py-8 text-gray-400">Loading voices...</div>
+        )}
 
-        {ttsProvider === 'webspeech' && webSpeechVoices.length === 0 && (
+        {!isLoadingVoices && voices.length === 0 && (
           <div className="text-center py-8 text-gray-400">
-            Loading voices... If no voices appear, Web Speech API may not be supported in your browser.
+            No voices found.
+            {ttsProvider === 'webspeech' && ' Web Speech API may not be supported in your browser.'}
           </div>
         )}
       </div>
@@ -538,7 +848,7 @@ export const UploadSetup: React.FC<UploadSetupProps> = ({ onComplete }) => {
       <div className="flex justify-end">
         <button
           onClick={handleSubmit}
-          disabled={!file || !openRouterKey || (ttsProvider === 'lemonfox' && !lemonfoxKey)}
+          disabled={files.length === 0 || !llmReady || (ttsInfo.capabilities.requiresApiKey && !lemonfoxKey)}
           className="glass-button-primary text-lg px-8 py-4 disabled:opacity-50 disabled:cursor-not-allowed"
         >
           Continue to Script Review →
@@ -1,22 +1,44 @@
 import React, { useState, useEffect } from 'react';
-import type { Slide, VideoGenerationProgress, TTSProvider } from '../types';
-import { TTSService } from '../services/ttsService';
-import { WebSpeechService } from '../services/webSpeechService';
-import { PuterTTSService } from '../services/puterTTSService';
+import type {
+  AudioCacheStats,
+  DialogueSettings,
+  LocalizedVideo,
+  PronunciationSettings,
+  Slide,
+  TargetLanguage,
+  TTSProvider,
+  VideoGenerationProgress,
+} from '../types';
+import { createTTSEngine, synthesizeDialogue } from '../services/ttsEngine';
+import { AudioCacheService, CachedTTSEngine, MAX_CACHE_BYTES } from '../services/audioCacheService';
 import { VideoCompiler } from '../services/videoCompiler';
+import { PacingService } from '../services/pacingService';
+import { findLanguage, getLanguage } from '../config/languages';
+import { DIALOGUE_TURN_GAP_MS, getTTSProvider } from '../config/ttsProviders';
+import { isActiveSlide } from '../utils/slides';
+import { countSpokenWords, getPauseSeconds } from '../utils/speechMarkup';
+import { DIALOGUE_SPEAKERS, parseDialogue } from '../utils/dialogue';
 
 interface VideoGenerationProps {
   slides: Slide[];
   voiceId: string;
+  targetLanguages: TargetLanguage[];
+  sourceLanguage: string; // the prompt template's language setting
+  pronunciation: PronunciationSettings;
+  dialogue: DialogueSettings;
   ttsProvider: TTSProvider;
   apiKey: string;
-  onComplete: (videoBlob: Blob, slides: Slide[]) => void;
+  onComplete: (videos: LocalizedVideo[], slides: Slide[]) => void;
   onBack: () => void;
 }
 
 export const VideoGeneration: React.FC<VideoGenerationProps> = ({
   slides: initialSlides,
   voiceId,
+  targetLanguages,
+  sourceLanguage,
+  pronunciation,
+  dialogue,
   ttsProvider,
   apiKey,
   onComplete,
@@ -26,117 +48,224 @@ export const VideoGeneration: React.FC<VideoGenerationProps> = ({
   const [progress, setProgress] = useState<VideoGenerationProgress>({
     stage: 'tts',
     currentSlide: 0,
-    totalSlides: initialSlides.length,
+    totalSlides: initialSlides.filter(isActiveSlide).length,
     percentage: 0,
     message: 'Preparing...',
   });
   const [error, setError] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [cacheStats, setCacheStats] = useState<AudioCacheStats | null>(null);
+
+  const refreshCacheStats = () => {
+    AudioCacheService.getStats()
+      .then(setCacheStats)
+      .catch((err) => console.warn('Could not read the audio cache:', err));
+  };
 
   useEffect(() => {
     // Auto-start generation
     startGeneration();
+    refreshCacheStats();
   }, []);
 
+  const handleClearCache = async () => {
+    try {
+      await AudioCacheService.clear();
+    } catch (err) {
+      console.warn('Could not clear the audio cache:', err);
+    }
+    refreshCacheStats();
+  };
+
   const startGeneration = async () => {
     setIsGenerating(true);
     setError(null);
 
     try {
-      // Check if using Web Speech API - it cannot be used for video generation
-      if (ttsProvider === 'webspeech') {
+      // Browser speech can be played but not captured into the video
+      const ttsInfo = getTTSProvider(ttsProvider);
+      if (!ttsInfo.capabilities.videoGeneration) {
         throw new Error(
-          'Web Speech API cannot be used for video generation. ' +
-          'Please go back and select Lemonfox TTS to generate videos. ' +
-          'Web Speech is only for testing scripts and voice previews.'
+          `${ttsInfo.name} cannot be used for video generation. ` +
+          'Please go back and select a provider that generates videos. ' +
+          `${ttsInfo.name} is only for testing scripts and voice previews.`
         );
       }
 
-      // Step 1: Generate TTS for all slides
-      setProgress({
-        stage: 'tts',
-        currentSlide: 0,
-        totalSlides: slides.length,
-        percentage: 0,
-        message: 'Generating speech audio...',
-      });
+      // Excluded slides and merged build pages are neither narrated nor rendered
+      const includedSlides = slides.filter(isActiveSlide);
 
-      // Create TTS service based on provider
-      const ttsService =
-        ttsProvider === 'lemonfox' ? new TTSService(apiKey) :
-        ttsProvider === 'putertts' ? new PuterTTSService() :
-        new WebSpeechService();
-
-      const updatedSlides = [...slides];
-
-      for (let i = 0; i < updatedSlides.length; i++) {
-        const slide = updatedSlides[i];
-
-        setProgress({
-          stage: 'tts',
-          currentSlide: i + 1,
-          totalSlides: slides.length,
-          percentage: Math.round(((i + 1) / slides.length) * 30),
-          message: `Generating speech for slide ${i + 1} of ${slides.length}...`,
-        });
-
-        try {
-          const audioBuffer = await ttsService.generateSpeech(slide.script, voiceId);
-          updatedSlides[i] = {
-            ...slide,
-            audioBuffer,
-            audioDuration: audioBuffer.duration,
+      // The source scripts first, then one video per translation
+      const languages = [
+        { code: findLanguage(sourceLanguage)?.code || '', name: sourceLanguage, voiceId },
+        ...targetLanguages.map((target) => ({
+          code: target.code,
+          name: getLanguage(target.code).name,
+          voiceId: target.voiceId,
+        })),
+      ];
+
+      // Clips from earlier runs are reused, so a retry only pays for what failed
+      const ttsEngine = new CachedTTSEngine(createTTSEngine(ttsProvider, { lemonfox: apiKey }));
+
+      const videos: LocalizedVideo[] = [];
+      let sourceSlides = slides;
+
+      try {
+        for (let languageIndex = 0; languageIndex < languages.length; languageIndex++) {
+          const language = languages[languageIndex];
+          const isSource = languageIndex === 0;
+
+          // Each language gets an equal share of the progress bar
+          const report = (stageProgress: VideoGenerationProgress) => {
+            setProgress({
+              ...stageProgress,
+              percentage: Math.round((languageIndex * 100 + stageProgress.percentage) / languages.length),
+              message: languages.length > 1 ? `${language.name}: ${stageProgress.message}` : stageProgress.message,
+            });
           };
 
-          // Add delay between slides to avoid rate limiting (except for last slide)
-          if (ttsProvider === 'putertts' && i < updatedSlides.length - 1) {
-            console.log(`[VideoGeneration] Waiting 1.5s before next slide to avoid rate limiting...`);
-            await new Promise(resolve => setTimeout(resolve, 1500));
+          // Step 1: Generate TTS for all slides
+          report({
+            stage: 'tts',
+            currentSlide: 0,
+            totalSlides: includedSlides.length,
+            percentage: 0,
+            message: 'Generating speech audio...',
+          });
+
+          // A slide without its translation would be read in the source language
+          const updatedSlides = includedSlides.map((slide, index) => {
+            if (isSource) return slide;
+            const script = slide.translations?.[language.code]?.script;
+            if (!script?.trim()) {
+              throw new Error(`Slide ${index + 1} has no ${language.name} translation. Go back and translate it first.`);
+            }
+            return { ...slide, script };
+          });
+
+          for (let i = 0; i < updatedSlides.length; i++) {
+            const slide = updatedSlides[i];
+
+            report({
+              stage: 'tts',
+              currentSlide: i + 1,
+              totalSlides: includedSlides.length,
+              percentage: Math.round(((i + 1) / includedSlides.length) * 30),
+              message: `Generating speech for slide ${i + 1} of ${includedSlides.length}...`,
+            });
+
+            const synthesizedBefore = ttsEngine.synthesizedCount;
+            try {
+              // Voice ids belong to a language, so slide and speaker voices
+              // only apply to the source scripts
+              const getVoice = (speaker: string | null) =>
+                (isSource && ((speaker && dialogue.voices[speaker]) || slide.voiceId)) || language.voiceId;
+
+              // Only the voice hears the lexicon, spelled-out numbers and markup
+              const audioBuffer = await synthesizeDialogue(ttsEngine, slide.script, getVoice, {
+                pronunciation,
+                languageCode: language.code,
+                prosody: slide.prosody,
+              });
+              updatedSlides[i] = {
+                ...slide,
+                audioBuffer,
+                audioDuration: audioBuffer.duration,
+              };
+
+              // Calibrates the speech rate used for target-length word budgets,
+              // measured without pauses, gaps between turns and the slide's rate
+              // change, from slides read by a single voice
+              const turns = parseDialogue(slide.script, DIALOGUE_SPEAKERS);
+              const slideVoices = new Set(turns.map((turn) => getVoice(turn.speaker)));
+              if (slideVoices.size === 1) {
+                const silence =
+                  getPauseSeconds(slide.script) + Math.max(0, turns.length - 1) * (DIALOGUE_TURN_GAP_MS / 1000);
+                PacingService.recordSample(
+                  PacingService.getVoiceKey(ttsProvider, [...slideVoices][0]),
+                  countSpokenWords(slide.script),
+                  (audioBuffer.duration - silence) * (slide.prosody?.rate || 1)
+                );
+              }
+
+              // Add delay between slides to avoid rate limiting (except for last
+              // slide, or when the audio came from the cache)
+              const { requestDelayMs } = ttsInfo.capabilities;
+              if (requestDelayMs > 0 && i < updatedSlides.length - 1 && ttsEngine.synthesizedCount > synthesizedBefore) {
+                console.log(`[VideoGeneration] Waiting ${requestDelayMs}ms before next slide to avoid rate limiting...`);
+                await new Promise(resolve => setTimeout(resolve, requestDelayMs));
+              }
+            } catch (err) {
+              console.error(`Failed to generate TTS for slide ${i + 1}:`, err);
+              throw new Error(`Failed to generate speech for slide ${i + 1}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+            }
           }
-        } catch (err) {
-          console.error(`Failed to generate TTS for slide ${i + 1}:`, err);
-          throw new Error(`Failed to generate speech for slide ${i + 1}: ${err instanceof Error ? err.message : 'Unknown error'}`);
-        }
-      }
 
-      setSlides(updatedSlides);
+          // Keep excluded and merged slides in the project so they can be re-included later
+          const allSlides = slides.map(
+            (slide) => updatedSlides.find((updated) => updated.id === slide.id) || slide
+          );
+          if (isSource) {
+            sourceSlides = allSlides;
+            setSlides(allSlides);
+          }
 
-      // Step 2: Compile video
-      setProgress({
-        stage: 'rendering',
-        currentSlide: 0,
-        totalSlides: slides.length,
-        percentage: 30,
-        message: 'Compiling video...',
-      });
+          // Step 2: Compile video
+          report({
+            stage: 'rendering',
+            currentSlide: 0,
+            totalSlides: includedSlides.length,
+            percentage: 30,
+            message: 'Compiling video...',
+          });
 
-      const compiler = new VideoCompiler((compileProgress) => {
-        setProgress({
-          ...compileProgress,
-          percentage: 30 + Math.round((compileProgress.percentage / 100) * 70),
-        });
-      });
+          const compiler = new VideoCompiler((compileProgress) => {
+            report({
+              ...compileProgress,
+              percentage: 30 + Math.round((compileProgress.percentage / 100) * 70),
+            });
+          });
 
-      const videoBlob = await compiler.compile(updatedSlides);
+          let blob: Blob;
+          try {
+            blob = await compiler.compile(updatedSlides);
+          } finally {
+            compiler.cleanup();
+          }
 
-      compiler.cleanup();
+          videos.push({
+            language: language.code,
+            languageName: language.name,
+            blob,
+            // Only the source audio is kept; the timings are enough for chapters and transcripts
+            slides: isSource
+              ? allSlides
+              : allSlides.map((slide) => ({ ...slide, audioBuffer: undefined })),
+          });
+        }
+      } finally {
+        ttsEngine.cleanup();
+      }
+      refreshCacheStats();
 
       setProgress({
         stage: 'complete',
-        currentSlide: slides.length,
-        totalSlides: slides.length,
+        currentSlide: includedSlides.length,
+        totalSlides: includedSlides.length,
         percentage: 100,
-        message: 'Video generation complete!',
+        message: languages.length > 1 ? `${languages.length} videos generated!` : 'Video generation complete!',
       });
 
       // Wait a moment before transitioning
       setTimeout(() => {
-        onComplete(videoBlob, updatedSlides);
+        onComplete(videos, sourceSlides);
       }, 1000);
     } catch (err) {
       console.error('Video generation error:', err);
       setError(err instanceof Error ? err.message : 'Failed to generate video');
       setIsGenerating(false);
+      refreshCacheStats();
     }
   };
 
@@ -253,6 +382,24 @@ export const VideoGeneration: React.FC<VideoGenerationProps> = ({
         </div>
       )}
 
+      {/* Speech Cache */}
+      {cacheStats && (
+        <div className="glass-card p-4 flex items-center justify-between gap-4">
+          <p className="text-sm text-gray-400">
+            🗄️ Speech cache: {cacheStats.clips} {cacheStats.clips === 1 ? 'clip' : 'clips'} •{' '}
+            {AudioCacheService.formatSize(cacheStats.bytes)} of {AudioCacheService.formatSize(MAX_CACHE_BYTES)}
+            <span className="text-gray-500"> • reused by retries and later videos with the same text and voice</span>
+          </p>
+          <button
+            onClick={handleClearCache}
+            disabled={isGenerating || cacheStats.clips === 0}
+            className="glass-button text-sm whitespace-nowrap disabled:opacity-50"
+          >
+            Clear Cache
+          </button>
+        </div>
+      )}
+
       {/* Tips */}
       {!error && isGenerating && (
         <div className="glass-card p-6 bg-blue-500/10 border-blue-500/30">
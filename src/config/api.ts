@@ -1,16 +1,59 @@
 export const API_CONFIG = {
-  openRouter: {
-    baseUrl: 'https://openrouter.ai/api/v1/chat/completions',
-    model: 'google/gemma-3-12b-it',
+  llm: {
     maxTokens: 150,
+    maxContextChars: 4000,
+    outlineMaxTokens: 600,
+    tokensPerWord: 2, // headroom so longer templates and other languages are not cut off
+    outlineCharsPerSlide: 400,
+    analysisMaxTokens: 300, // title, key points and alt text on top of the narration
+    repairAttempts: 1,
+    translationTokensPerChar: 1, // Japanese needs about one token per character
   },
   lemonfox: {
     baseUrl: 'https://api.lemonfox.ai/v1/audio/speech',
     model: 'tts-1',
   },
   pdfJs: {
-    cdnUrl: 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174',
     scale: 2,
+    maxWidth: 1920, // px, caps the rendered page width
+  },
+  pptx: {
+    scale: 2,
+  },
+  modelCatalog: {
+    url: 'https://openrouter.ai/api/v1/models',
+    cacheTtlMs: 24 * 60 * 60 * 1000,
+    charsPerToken: 4, // rough prompt size estimate
+    imageTokens: 1000, // per slide image when the model has no per-image price
+  },
+  generation: {
+    concurrency: 3,
+    maxConcurrency: 5,
+    maxRetries: 4,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+    maxRetryAfterMs: 120000, // longer Retry-After waits fail instead
+    compareModels: 3, // candidates written side by side for one slide
+  },
+  pacing: {
+    defaultWordsPerSecond: 2.5, // about 150 words a minute until a voice is measured
+    minCalibrationWords: 50,
+    maxCalibrationWords: 2000, // older measurements are scaled down beyond this
+    minWordsPerSlide: 15,
+    densityCharsPerWeight: 200, // slide text that earns one extra share of the words
+    maxDensityWeight: 3,
+    fitTolerance: 0.15, // scripts within 15% of their budget are left alone
+  },
+  ocr: {
+    language: 'eng',
+    minConfidence: 40, // below this the recognized text is mostly noise
+  },
+  buildDetection: {
+    thumbnailWidth: 64,
+    thumbnailHeight: 48,
+    pixelThreshold: 24, // grey levels before a pixel counts as changed
+    maxChangedFraction: 0.2, // builds only change a small part of the page
+    minAdditiveFraction: 0.6, // changed pixels that were background before
   },
   video: {
     fps: 30,
@@ -30,11 +73,63 @@ export const API_CONFIG = {
   },
 };
 
-export const VISION_PROMPT = `Analyze this presentation slide and generate a concise narration script (under 80 words) that:
+export const VISION_PROMPT = `Analyze this presentation slide and generate a concise narration script (under {{targetWords}} words) for {{audience}} that:
 1. Explains the main message or key point of the slide
 2. Highlights important data, statistics, or visuals if present
-3. Uses clear, professional language suitable for voice narration
+3. Uses clear, {{tone}} language suitable for voice narration
 4. Flows naturally when spoken aloud
 5. Avoids reading bullet points verbatim - instead synthesize the information
 
-Provide ONLY the narration script, no additional commentary or formatting.`;
+Write the narration in {{language}}.`;
+
+export const SLIDE_TEXT_PROMPT = `The slide's extracted text layer is included below. Use it for exact wording, names and numbers instead of reading them from the image.`;
+
+export const OUTLINE_PROMPT = `Below is the text of every slide in a presentation, in order. Write a short outline of the talk it represents:
+1. One sentence describing the overall topic and goal of the presentation
+2. One line per slide, starting with its slide number, summarizing what that slide contributes
+3. Note where the talk moves to a new topic
+
+Provide ONLY the outline, no additional commentary.`;
+
+export const ANALYSIS_FORMAT_PROMPT = `Reply with a single JSON object and nothing else (no code fences, no commentary), in this shape:
+{
+  "narration": "the narration script described above",
+  "title": "short slide title, at most 8 words",
+  "keyPoints": ["2 to 5 short key points of the slide"],
+  "altText": "one or two sentences describing what the slide shows, for screen-reader users"
+}
+Write every field in {{language}}.`;
+
+// Closing line of templates written before replies became JSON; it would
+// contradict the JSON format, so it is dropped from the prompt
+export const SCRIPT_ONLY_INSTRUCTION = /^\s*Provide ONLY the narration script[^\n]*$/gim;
+
+export const ANALYSIS_REPAIR_PROMPT = `Your previous reply could not be used because it is not valid JSON in the required shape. Return only the corrected JSON object with the string fields "narration", "title" and "altText" and the string array "keyPoints", keeping the content of your reply.`;
+
+export const TRANSLATION_PROMPT = `Translate the following presentation narration script into {{language}}. The translation will be read aloud by a text-to-speech voice, so:
+- Write natural, idiomatic spoken {{language}} rather than a word-for-word translation
+- Keep product names, proper names and numbers as they are
+- Keep roughly the same length and all of the meaning
+- Keep delivery markup such as [pause], *emphasis*, [spell]...[/spell] and [slow]...[/slow] around the matching words
+- Keep speaker labels such as HOST: and GUEST: untranslated at the start of their lines
+
+Provide ONLY the translated script, no additional commentary or formatting.`;
+
+export const FIT_LENGTH_PROMPT = `Rewrite the following presentation narration script to about {{targetWords}} words so the video fits its target length:
+- Keep the key message, names and numbers
+- Keep the language, tone and any transition from the previous slide
+- Cut or add detail rather than changing the meaning
+- Keep delivery markup such as [pause], *emphasis*, [spell]...[/spell] and [slow]...[/slow]
+- Keep speaker labels such as HOST: and GUEST: at the start of their lines
+
+Provide ONLY the rewritten script, no additional commentary or formatting.`;
+
+export const DIALOGUE_PROMPT = `Write the narration as a conversation between two presenters instead of a monologue:
+- Start every turn on a new line with "HOST:" or "GUEST:", and nothing else before the label
+- The host guides the viewer through the slide; the guest asks what a viewer would ask and adds detail
+- Keep turns short and natural, and the whole conversation within the requested length`;
+
+export const DECK_CONTEXT_PROMPT = `This slide is part of one continuous narrated talk. Use the outline and the previous slide's narration below to:
+- Open with a brief, natural transition from the previous slide instead of starting cold (never begin with "This slide")
+- Avoid repeating points the previous narration already made
+- Set up what comes next when it helps the flow`;
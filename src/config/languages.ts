@@ -0,0 +1,36 @@
+export interface NarrationLanguage {
+  code: string; // ISO 639-1, matched against voice locales such as de-DE
+  name: string; // as written into prompts
+  nativeName: string;
+}
+
+export const NARRATION_LANGUAGES: NarrationLanguage[] = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語' },
+];
+
+/**
+ * Language for a template's free-text language setting ("English", "de", ...)
+ */
+export function findLanguage(nameOrCode: string): NarrationLanguage | undefined {
+  const value = nameOrCode.trim().toLowerCase();
+  return NARRATION_LANGUAGES.find(
+    (language) =>
+      language.code === value ||
+      language.name.toLowerCase() === value ||
+      language.nativeName.toLowerCase() === value
+  );
+}
+
+export function getLanguage(code: string): NarrationLanguage {
+  return NARRATION_LANGUAGES.find((language) => language.code === code) || NARRATION_LANGUAGES[0];
+}
+
+/**
+ * Whether a voice locale (en-US, ja-JP, ...) speaks the language
+ */
+export function matchesLanguage(locale: string, code: string): boolean {
+  return locale.toLowerCase().split(/[-_]/)[0] === code;
+}
@@ -1,9 +1,13 @@
+import type { LLMProviderId, LLMSettings, ModelPricing } from '../types';
+
 export interface OpenRouterModel {
   id: string;
   name: string;
   description: string;
   free: boolean;
   supportsVision: boolean;
+  pricing?: ModelPricing; // from the live catalogue
+  contextLength?: number;
 }
 
 export const OPENROUTER_MODELS: OpenRouterModel[] = [
@@ -73,3 +77,84 @@ export const OPENROUTER_MODELS: OpenRouterModel[] = [
 ];
 
 export const DEFAULT_MODEL = 'google/gemma-3-12b-it';
+
+export interface LLMProviderInfo {
+  id: LLMProviderId;
+  name: string;
+  description: string;
+  defaultBaseUrl: string;
+  baseUrlEditable: boolean;
+  requiresApiKey: boolean;
+  keyPlaceholder: string;
+  defaultModel: string;
+  // Suggestions only; any model id the endpoint accepts can be entered
+  models: { id: string; name: string }[];
+}
+
+export const LLM_PROVIDERS: LLMProviderInfo[] = [
+  {
+    id: 'openrouter',
+    name: 'OpenRouter',
+    description: 'Hundreds of hosted models behind one API key',
+    defaultBaseUrl: 'https://openrouter.ai/api/v1',
+    baseUrlEditable: false,
+    requiresApiKey: true,
+    keyPlaceholder: 'sk-or-...',
+    defaultModel: DEFAULT_MODEL,
+    models: OPENROUTER_MODELS.map(({ id, name }) => ({ id, name })),
+  },
+  {
+    id: 'openai-compatible',
+    name: 'Local / OpenAI-compatible',
+    description: 'Ollama, llama.cpp, LM Studio or vLLM - slides never leave your network',
+    defaultBaseUrl: 'http://localhost:11434/v1',
+    baseUrlEditable: true,
+    requiresApiKey: false,
+    keyPlaceholder: 'Optional',
+    defaultModel: 'gemma3:12b',
+    models: [
+      { id: 'gemma3:12b', name: 'Gemma 3 12B (Ollama)' },
+      { id: 'qwen2.5vl:7b', name: 'Qwen 2.5 VL 7B (Ollama)' },
+      { id: 'llava:13b', name: 'LLaVA 13B (Ollama)' },
+    ],
+  },
+  {
+    id: 'openai',
+    name: 'OpenAI',
+    description: 'Direct OpenAI API',
+    defaultBaseUrl: 'https://api.openai.com/v1',
+    baseUrlEditable: false,
+    requiresApiKey: true,
+    keyPlaceholder: 'sk-...',
+    defaultModel: 'gpt-4o-mini',
+    models: [
+      { id: 'gpt-4o-mini', name: 'GPT-4o mini' },
+      { id: 'gpt-4o', name: 'GPT-4o' },
+      { id: 'gpt-4.1-mini', name: 'GPT-4.1 mini' },
+    ],
+  },
+  {
+    id: 'anthropic',
+    name: 'Anthropic',
+    description: 'Direct Claude API',
+    defaultBaseUrl: 'https://api.anthropic.com/v1',
+    baseUrlEditable: false,
+    requiresApiKey: true,
+    keyPlaceholder: 'sk-ant-...',
+    defaultModel: 'claude-haiku-4-5',
+    models: [
+      { id: 'claude-haiku-4-5', name: 'Claude Haiku 4.5' },
+      { id: 'claude-sonnet-4-5', name: 'Claude Sonnet 4.5' },
+    ],
+  },
+];
+
+export const getLLMProvider = (id: LLMProviderId): LLMProviderInfo =>
+  LLM_PROVIDERS.find((provider) => provider.id === id) || LLM_PROVIDERS[0];
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  provider: 'openrouter',
+  apiKey: '',
+  baseUrl: LLM_PROVIDERS[0].defaultBaseUrl,
+  model: DEFAULT_MODEL,
+};
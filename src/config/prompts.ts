@@ -0,0 +1,75 @@
+import { VISION_PROMPT } from './api';
+import type { PromptTemplate, PromptVariables } from '../types';
+
+export const PROMPT_VARIABLE_NAMES: (keyof PromptVariables)[] = [
+  'audience',
+  'tone',
+  'targetWords',
+  'language',
+];
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'narration',
+    name: 'Professional Narration',
+    prompt: VISION_PROMPT,
+    variables: {
+      audience: 'a general business audience',
+      tone: 'professional',
+      targetWords: 80,
+      language: 'English',
+    },
+  },
+  {
+    id: 'sales-demo',
+    name: 'Sales Demo',
+    prompt: `Narrate this presentation slide for {{audience}} in under {{targetWords}} words.
+1. Lead with the benefit to the customer rather than the feature
+2. Use concrete numbers and outcomes shown on the slide
+3. Keep the tone {{tone}}, without exaggerated claims
+4. Speak directly to the viewer ("you", "your team")
+
+Write the narration in {{language}}.`,
+    variables: {
+      audience: 'prospective customers',
+      tone: 'enthusiastic and persuasive',
+      targetWords: 70,
+      language: 'English',
+    },
+  },
+  {
+    id: 'training',
+    name: 'Internal Training',
+    prompt: `Narrate this training slide for {{audience}} in under {{targetWords}} words.
+1. Explain what the learner needs to know or do, step by step where the slide shows a process
+2. Define any jargon or acronyms the first time they appear
+3. Point out common mistakes or tips if the slide suggests them
+4. Keep the tone {{tone}}
+
+Write the narration in {{language}}.`,
+    variables: {
+      audience: 'employees learning a new process',
+      tone: 'friendly and instructive',
+      targetWords: 100,
+      language: 'English',
+    },
+  },
+  {
+    id: 'conference-recap',
+    name: 'Conference Recap',
+    prompt: `Summarize this conference slide for {{audience}} in under {{targetWords}} words.
+1. Capture the speaker's key takeaway and why it matters
+2. Mention notable data, examples or quotes from the slide
+3. Keep the tone {{tone}}, as if recapping the talk for a colleague
+
+Write the narration in {{language}}.`,
+    variables: {
+      audience: 'colleagues who missed the talk',
+      tone: 'conversational and informative',
+      targetWords: 80,
+      language: 'English',
+    },
+  },
+];
+
+export const DEFAULT_PROMPT_TEMPLATE = DEFAULT_PROMPT_TEMPLATES[0];
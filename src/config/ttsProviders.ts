@@ -0,0 +1,137 @@
+import type { DialogueSettings, SlideProsody, TTSCapabilities, TTSProvider } from '../types';
+
+export interface TTSProviderInfo {
+  id: TTSProvider;
+  name: string;
+  icon: string;
+  badge: string;
+  accent: 'green' | 'blue' | 'teal' | 'purple';
+  summary: string;
+  features: string[];
+  regions: string[]; // filters for the English voices; empty when not offered
+  capabilities: TTSCapabilities;
+}
+
+export const TTS_PREVIEW_TEXT = "Hello, I'm a professional voice for your presentation narration.";
+
+export const DEFAULT_PROSODY: SlideProsody = { rate: 1, pitch: 0 };
+
+// Per-slide controls in the script editor
+export const PROSODY_LIMITS = {
+  rate: { min: 0.5, max: 1.5, step: 0.05 },
+  pitch: { min: -20, max: 20, step: 1 },
+};
+
+export const DEFAULT_DIALOGUE: DialogueSettings = { enabled: false, voices: {} };
+
+// Silence between two speakers' turns
+export const DIALOGUE_TURN_GAP_MS = 300;
+
+// Region filter → English locale
+export const REGION_LOCALES: Record<string, string> = {
+  US: 'en-US',
+  UK: 'en-GB',
+  AU: 'en-AU',
+  IN: 'en-IN',
+};
+
+export const TTS_PROVIDERS: TTSProviderInfo[] = [
+  {
+    id: 'webspeech',
+    name: 'Web Speech API',
+    icon: '🆓',
+    badge: 'FREE',
+    accent: 'green',
+    summary: 'Browser-based TTS • No API key needed • Works offline',
+    features: [
+      '✓ Completely free',
+      '✓ No limits',
+      '✓ Perfect for testing scripts',
+      '⚠️ Cannot generate videos - preview only',
+      '• Voice quality varies by browser/OS',
+    ],
+    regions: [],
+    capabilities: {
+      ssml: false,
+      pitch: true,
+      wordTimings: true,
+      videoGeneration: false,
+      requiresApiKey: false,
+      requestDelayMs: 0,
+    },
+  },
+  {
+    id: 'putertts',
+    name: 'Puter TTS',
+    icon: '🚀',
+    badge: 'FREE',
+    accent: 'blue',
+    summary: 'Amazon Polly voices • No API key • Generates videos',
+    features: [
+      '✓ Completely free',
+      '✓ Unlimited usage',
+      '✓ 17+ neural voices',
+      '✓ Generates videos successfully',
+      '✓ High quality neural & generative voices',
+    ],
+    regions: ['US', 'UK', 'AU', 'IN'],
+    capabilities: {
+      ssml: true,
+      pitch: false, // Polly's neural voices reject pitch changes
+      wordTimings: false,
+      videoGeneration: true,
+      requiresApiKey: false,
+      requestDelayMs: 1500,
+    },
+  },
+  {
+    id: 'edge',
+    name: 'Edge TTS',
+    icon: '🌐',
+    badge: 'FREE',
+    accent: 'teal',
+    summary: 'Microsoft Edge neural voices • No API key • Generates videos',
+    features: [
+      '✓ Completely free',
+      '✓ Natural neural voices in many languages',
+      '✓ Generates videos',
+      "• Uses Microsoft's online read-aloud service",
+      '• No SSML: pauses and [slow]/[fast] are read as separate clips, emphasis is not stressed',
+    ],
+    regions: ['US', 'UK', 'AU', 'IN'],
+    capabilities: {
+      ssml: false, // the client escapes its input and only sends its own prosody
+      pitch: true,
+      wordTimings: false,
+      videoGeneration: true,
+      requiresApiKey: false,
+      requestDelayMs: 500,
+    },
+  },
+  {
+    id: 'lemonfox',
+    name: 'Lemonfox TTS',
+    icon: '⭐',
+    badge: 'PREMIUM',
+    accent: 'purple',
+    summary: 'Professional TTS • API key required • 28 premium voices',
+    features: [
+      '✓ Studio-quality voices',
+      '✓ 28 voice profiles',
+      '✓ Consistent quality',
+      '• Requires API key',
+    ],
+    regions: ['US', 'UK'],
+    capabilities: {
+      ssml: false,
+      pitch: false,
+      wordTimings: false,
+      videoGeneration: true,
+      requiresApiKey: true,
+      requestDelayMs: 0,
+    },
+  },
+];
+
+export const getTTSProvider = (id: TTSProvider): TTSProviderInfo =>
+  TTS_PROVIDERS.find((provider) => provider.id === id) || TTS_PROVIDERS[0];
@@ -1,43 +1,57 @@
 export interface VoiceProfile {
   id: string;
   name: string;
-  region: 'US' | 'UK';
+  region: 'US' | 'UK' | 'ES' | 'JP';
+  locale: string;
   gender: 'Male' | 'Female';
   description: string;
+  language?: string; // Lemonfox language code, sent for non-English voices
 }
 
 export const VOICE_PROFILES: VoiceProfile[] = [
   // US Voices (20)
-  { id: 'rachel', name: 'Rachel', region: 'US', gender: 'Female', description: 'Warm and engaging American voice' },
-  { id: 'domi', name: 'Domi', region: 'US', gender: 'Female', description: 'Clear and professional American voice' },
-  { id: 'bella', name: 'Bella', region: 'US', gender: 'Female', description: 'Friendly and articulate American voice' },
-  { id: 'antoni', name: 'Antoni', region: 'US', gender: 'Male', description: 'Confident and authoritative American voice' },
-  { id: 'elli', name: 'Elli', region: 'US', gender: 'Female', description: 'Expressive and dynamic American voice' },
-  { id: 'josh', name: 'Josh', region: 'US', gender: 'Male', description: 'Natural and conversational American voice' },
-  { id: 'arnold', name: 'Arnold', region: 'US', gender: 'Male', description: 'Deep and resonant American voice' },
-  { id: 'adam', name: 'Adam', region: 'US', gender: 'Male', description: 'Professional and clear American voice' },
-  { id: 'sam', name: 'Sam', region: 'US', gender: 'Male', description: 'Versatile and engaging American voice' },
-  { id: 'arnold', name: 'Arnold', region: 'US', gender: 'Male', description: 'Strong and commanding American voice' },
-  { id: 'clyde', name: 'Clyde', region: 'US', gender: 'Male', description: 'Smooth and polished American voice' },
-  { id: 'dave', name: 'Dave', region: 'US', gender: 'Male', description: 'Friendly and approachable American voice' },
-  { id: 'fin', name: 'Fin', region: 'US', gender: 'Male', description: 'Energetic and youthful American voice' },
-  { id: 'grace', name: 'Grace', region: 'US', gender: 'Female', description: 'Elegant and sophisticated American voice' },
-  { id: 'heidi', name: 'Heidi', region: 'US', gender: 'Female', description: 'Bright and cheerful American voice' },
-  { id: 'james', name: 'James', region: 'US', gender: 'Male', description: 'Distinguished and professional American voice' },
-  { id: 'jeremy', name: 'Jeremy', region: 'US', gender: 'Male', description: 'Articulate and measured American voice' },
-  { id: 'jessie', name: 'Jessie', region: 'US', gender: 'Female', description: 'Confident and clear American voice' },
-  { id: 'liam', name: 'Liam', region: 'US', gender: 'Male', description: 'Modern and engaging American voice' },
-  { id: 'michael', name: 'Michael', region: 'US', gender: 'Male', description: 'Authoritative and trustworthy American voice' },
+  { id: 'rachel', name: 'Rachel', region: 'US', locale: 'en-US', gender: 'Female', description: 'Warm and engaging American voice' },
+  { id: 'domi', name: 'Domi', region: 'US', locale: 'en-US', gender: 'Female', description: 'Clear and professional American voice' },
+  { id: 'bella', name: 'Bella', region: 'US', locale: 'en-US', gender: 'Female', description: 'Friendly and articulate American voice' },
+  { id: 'antoni', name: 'Antoni', region: 'US', locale: 'en-US', gender: 'Male', description: 'Confident and authoritative American voice' },
+  { id: 'elli', name: 'Elli', region: 'US', locale: 'en-US', gender: 'Female', description: 'Expressive and dynamic American voice' },
+  { id: 'josh', name: 'Josh', region: 'US', locale: 'en-US', gender: 'Male', description: 'Natural and conversational American voice' },
+  { id: 'arnold', name: 'Arnold', region: 'US', locale: 'en-US', gender: 'Male', description: 'Deep and resonant American voice' },
+  { id: 'adam', name: 'Adam', region: 'US', locale: 'en-US', gender: 'Male', description: 'Professional and clear American voice' },
+  { id: 'sam', name: 'Sam', region: 'US', locale: 'en-US', gender: 'Male', description: 'Versatile and engaging American voice' },
+  { id: 'arnold', name: 'Arnold', region: 'US', locale: 'en-US', gender: 'Male', description: 'Strong and commanding American voice' },
+  { id: 'clyde', name: 'Clyde', region: 'US', locale: 'en-US', gender: 'Male', description: 'Smooth and polished American voice' },
+  { id: 'dave', name: 'Dave', region: 'US', locale: 'en-US', gender: 'Male', description: 'Friendly and approachable American voice' },
+  { id: 'fin', name: 'Fin', region: 'US', locale: 'en-US', gender: 'Male', description: 'Energetic and youthful American voice' },
+  { id: 'grace', name: 'Grace', region: 'US', locale: 'en-US', gender: 'Female', description: 'Elegant and sophisticated American voice' },
+  { id: 'heidi', name: 'Heidi', region: 'US', locale: 'en-US', gender: 'Female', description: 'Bright and cheerful American voice' },
+  { id: 'james', name: 'James', region: 'US', locale: 'en-US', gender: 'Male', description: 'Distinguished and professional American voice' },
+  { id: 'jeremy', name: 'Jeremy', region: 'US', locale: 'en-US', gender: 'Male', description: 'Articulate and measured American voice' },
+  { id: 'jessie', name: 'Jessie', region: 'US', locale: 'en-US', gender: 'Female', description: 'Confident and clear American voice' },
+  { id: 'liam', name: 'Liam', region: 'US', locale: 'en-US', gender: 'Male', description: 'Modern and engaging American voice' },
+  { id: 'michael', name: 'Michael', region: 'US', locale: 'en-US', gender: 'Male', description: 'Authoritative and trustworthy American voice' },
 
   // UK Voices (8)
-  { id: 'alice', name: 'Alice', region: 'UK', gender: 'Female', description: 'Refined and articulate British voice' },
-  { id: 'george', name: 'George', region: 'UK', gender: 'Male', description: 'Distinguished British voice' },
-  { id: 'lily', name: 'Lily', region: 'UK', gender: 'Female', description: 'Clear and elegant British voice' },
-  { id: 'harry', name: 'Harry', region: 'UK', gender: 'Male', description: 'Professional British voice' },
-  { id: 'charlotte', name: 'Charlotte', region: 'UK', gender: 'Female', description: 'Sophisticated British voice' },
-  { id: 'sarah', name: 'Sarah', region: 'UK', gender: 'Female', description: 'Warm and engaging British voice' },
-  { id: 'william', name: 'William', region: 'UK', gender: 'Male', description: 'Authoritative British voice' },
-  { id: 'thomas', name: 'Thomas', region: 'UK', gender: 'Male', description: 'Polished and clear British voice' },
+  { id: 'alice', name: 'Alice', region: 'UK', locale: 'en-GB', gender: 'Female', description: 'Refined and articulate British voice' },
+  { id: 'george', name: 'George', region: 'UK', locale: 'en-GB', gender: 'Male', description: 'Distinguished British voice' },
+  { id: 'lily', name: 'Lily', region: 'UK', locale: 'en-GB', gender: 'Female', description: 'Clear and elegant British voice' },
+  { id: 'harry', name: 'Harry', region: 'UK', locale: 'en-GB', gender: 'Male', description: 'Professional British voice' },
+  { id: 'charlotte', name: 'Charlotte', region: 'UK', locale: 'en-GB', gender: 'Female', description: 'Sophisticated British voice' },
+  { id: 'sarah', name: 'Sarah', region: 'UK', locale: 'en-GB', gender: 'Female', description: 'Warm and engaging British voice' },
+  { id: 'william', name: 'William', region: 'UK', locale: 'en-GB', gender: 'Male', description: 'Authoritative British voice' },
+  { id: 'thomas', name: 'Thomas', region: 'UK', locale: 'en-GB', gender: 'Male', description: 'Polished and clear British voice' },
+
+  // Spanish Voices (3)
+  { id: 'dora', name: 'Dora', region: 'ES', locale: 'es-ES', gender: 'Female', description: 'Warm and clear Spanish voice', language: 'es' },
+  { id: 'alex', name: 'Alex', region: 'ES', locale: 'es-ES', gender: 'Male', description: 'Natural and engaging Spanish voice', language: 'es' },
+  { id: 'santa', name: 'Santa', region: 'ES', locale: 'es-ES', gender: 'Male', description: 'Deep and friendly Spanish voice', language: 'es' },
+
+  // Japanese Voices (5)
+  { id: 'sakura', name: 'Sakura', region: 'JP', locale: 'ja-JP', gender: 'Female', description: 'Bright and clear Japanese voice', language: 'ja' },
+  { id: 'gongitsune', name: 'Gongitsune', region: 'JP', locale: 'ja-JP', gender: 'Female', description: 'Calm and gentle Japanese voice', language: 'ja' },
+  { id: 'nezumi', name: 'Nezumi', region: 'JP', locale: 'ja-JP', gender: 'Female', description: 'Light and lively Japanese voice', language: 'ja' },
+  { id: 'tebukuro', name: 'Tebukuro', region: 'JP', locale: 'ja-JP', gender: 'Female', description: 'Soft and warm Japanese voice', language: 'ja' },
+  { id: 'kumo', name: 'Kumo', region: 'JP', locale: 'ja-JP', gender: 'Male', description: 'Steady and professional Japanese voice', language: 'ja' },
 ];
 
 export const DEFAULT_VOICE = 'rachel';
@@ -0,0 +1,215 @@
+/**
+ * Audio Cache Service - Keeps synthesized speech between runs
+ * Clips are stored in IndexedDB as WAV under a SHA-256 of the provider,
+ * voice, text and speaking options, so a retry or a later session only
+ * synthesizes what changed. Past MAX_CACHE_BYTES the least recently used
+ * clips are evicted.
+ */
+
+import { decodeWav, encodeWav } from '../utils/audio';
+import type { AudioCacheStats, TTSProvider, TTSVoice } from '../types';
+import type { SynthesisOptions, TTSEngine } from './ttsEngine';
+
+const DB_NAME = 'deck-narrator';
+const DB_VERSION = 2;
+const STORE_NAME = 'tts-audio';
+
+// About 35 minutes of 48 kHz mono speech
+export const MAX_CACHE_BYTES = 200 * 1024 * 1024;
+
+interface CachedClip {
+  key: string;
+  wav: ArrayBuffer;
+  size: number; // indexed, so the cache can be measured without reading the audio
+  createdAt: number;
+  lastUsed: number; // indexed, so the oldest clips are evicted first
+}
+
+// Resolves with an IndexedDB request's result
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolves once a transaction's writes are committed
+const committed = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'QuotaExceededError';
+
+export class AudioCacheService {
+  private static db: Promise<IDBDatabase> | null = null;
+
+  static async getKey(
+    provider: TTSProvider,
+    voiceId: string,
+    text: string,
+    { ssml = false, rate = 1, pitch = 0 }: SynthesisOptions
+  ): Promise<string> {
+    const normalized = text.replace(/\s+/g, ' ').trim();
+    const source = JSON.stringify([provider, voiceId, normalized, ssml, rate, pitch]);
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(source));
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  static async get(key: string): Promise<AudioBuffer | null> {
+    const store = await this.getStore('readwrite');
+    const clip: CachedClip | undefined = await promisify(store.get(key));
+    if (!clip) return null;
+
+    store.put({ ...clip, lastUsed: Date.now() });
+    return decodeWav(clip.wav);
+  }
+
+  /**
+   * Stores a clip and evicts what no longer fits. A full disk only skips
+   * the write.
+   */
+  static async put(key: string, audioBuffer: AudioBuffer): Promise<void> {
+    const wav = encodeWav(audioBuffer);
+    const now = Date.now();
+    const clip: CachedClip = { key, wav, size: wav.byteLength, createdAt: now, lastUsed: now };
+
+    try {
+      const store = await this.getStore('readwrite');
+      store.put(clip);
+      await committed(store.transaction);
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+      console.warn('[AudioCache] Storage quota exceeded, clip not cached');
+      return;
+    }
+
+    await this.evict(MAX_CACHE_BYTES);
+  }
+
+  static async getStats(): Promise<AudioCacheStats> {
+    const index = (await this.getStore('readonly')).index('size');
+
+    return new Promise((resolve, reject) => {
+      const stats: AudioCacheStats = { clips: 0, bytes: 0 };
+      // A key cursor over the size index never reads the audio itself
+      const request = index.openKeyCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(stats);
+          return;
+        }
+        stats.clips++;
+        stats.bytes += cursor.key as number;
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  static async clear(): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await promisify(store.clear());
+    console.log('[AudioCache] Cleared');
+  }
+
+  static formatSize(bytes: number): string {
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  }
+
+  /**
+   * Deletes the least recently used clips until the cache fits in `maxBytes`
+   */
+  private static async evict(maxBytes: number): Promise<void> {
+    let { bytes } = await this.getStats();
+    if (bytes <= maxBytes) return;
+
+    const store = await this.getStore('readwrite');
+    const request = store.index('lastUsed').openCursor();
+    let evicted = 0;
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || bytes <= maxBytes) return;
+      bytes -= (cursor.value as CachedClip).size;
+      evicted++;
+      cursor.delete();
+      cursor.continue();
+    };
+
+    await committed(store.transaction);
+    console.log(`[AudioCache] Evicted ${evicted} clips`);
+  }
+
+  private static async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // Version 1 clips have no lastUsed to index, so the cache starts over
+        if (db.objectStoreNames.contains(STORE_NAME)) db.deleteObjectStore(STORE_NAME);
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('size', 'size');
+        store.createIndex('lastUsed', 'lastUsed');
+      };
+      this.db = promisify(request).catch((error) => {
+        this.db = null;
+        throw error;
+      });
+    }
+
+    return (await this.db).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+}
+
+/**
+ * An engine that answers from the cache and stores what it synthesizes.
+ * A cache that cannot be read or written only costs the saving.
+ */
+export class CachedTTSEngine implements TTSEngine {
+  readonly id: TTSProvider;
+  synthesizedCount = 0; // clips that needed the provider
+
+  private engine: TTSEngine;
+
+  constructor(engine: TTSEngine) {
+    this.engine = engine;
+    this.id = engine.id;
+  }
+
+  async synthesize(text: string, voiceId: string, options: SynthesisOptions = {}): Promise<AudioBuffer> {
+    let key: string | null = null;
+    try {
+      key = await AudioCacheService.getKey(this.id, voiceId, text, options);
+      const cached = await AudioCacheService.get(key);
+      if (cached) return cached;
+    } catch (error) {
+      console.warn('[AudioCache] Lookup failed:', error);
+    }
+
+    const audioBuffer = await this.engine.synthesize(text, voiceId, options);
+    this.synthesizedCount++;
+
+    if (key) {
+      await AudioCacheService.put(key, audioBuffer).catch((error) =>
+        console.warn('[AudioCache] Could not store clip:', error)
+      );
+    }
+    return audioBuffer;
+  }
+
+  preview(voiceId: string): Promise<void> {
+    return this.engine.preview(voiceId);
+  }
+
+  listVoices(): Promise<TTSVoice[]> {
+    return this.engine.listVoices();
+  }
+
+  cleanup(): void {
+    this.engine.cleanup();
+  }
+}
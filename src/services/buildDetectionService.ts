@@ -0,0 +1,159 @@
+/**
+ * Build Detection Service - Finds animation "build" pages
+ * Decks exported with animations repeat a page once per bullet. Consecutive
+ * pages that differ only by content appearing on the background are grouped
+ * so they can be narrated as one slide.
+ */
+
+import { API_CONFIG } from '../config/api';
+import type { BuildGroup, DeckImportOptions, Slide } from '../types';
+
+interface Thumbnail {
+  pixels: Uint8ClampedArray; // greyscale
+  background: number;
+}
+
+export class BuildDetectionService {
+  static async detectBuildGroups(
+    slides: Slide[],
+    options: Pick<DeckImportOptions, 'signal' | 'onProgress'> = {}
+  ): Promise<BuildGroup[]> {
+    const { signal, onProgress } = options;
+    const thumbnails: Thumbnail[] = [];
+
+    for (let i = 0; i < slides.length; i++) {
+      if (signal?.aborted) {
+        throw new DOMException('Deck import was cancelled', 'AbortError');
+      }
+
+      thumbnails.push(await this.createThumbnail(slides[i].imageBlob));
+      onProgress?.({
+        current: i + 1,
+        total: slides.length,
+        message: `Checking for animation builds (${i + 1} of ${slides.length})`,
+      });
+    }
+
+    const groups: BuildGroup[] = [];
+    let run: Slide[] = [slides[0]];
+
+    const closeRun = () => {
+      if (run.length > 1) {
+        groups.push({
+          id: `build-${run[0].id}`,
+          slideIds: run.map((slide) => slide.id),
+          status: 'proposed',
+          showSteps: true,
+        });
+      }
+    };
+
+    for (let i = 1; i < slides.length; i++) {
+      // Only pages that were next to each other in the source can be builds
+      const adjacent = slides[i].pageNumber === slides[i - 1].pageNumber + 1;
+
+      if (adjacent && this.isBuildStep(thumbnails[i - 1], thumbnails[i])) {
+        run.push(slides[i]);
+      } else {
+        closeRun();
+        run = [slides[i]];
+      }
+    }
+    closeRun();
+
+    return groups;
+  }
+
+  /**
+   * Fold grouped pages into their last page. Rejected groups stay split.
+   */
+  static applyBuildGroups(slides: Slide[], groups: BuildGroup[]): Slide[] {
+    const updates = new Map<string, Pick<Slide, 'mergedInto' | 'buildStepUrls'>>();
+
+    for (const group of groups) {
+      if (group.status === 'rejected') continue;
+
+      const finalId = group.slideIds[group.slideIds.length - 1];
+      const groupSlides = group.slideIds
+        .map((id) => slides.find((slide) => slide.id === id))
+        .filter((slide): slide is Slide => !!slide);
+
+      for (const slide of groupSlides) {
+        if (slide.id !== finalId) {
+          updates.set(slide.id, { mergedInto: finalId, buildStepUrls: undefined });
+        }
+      }
+
+      updates.set(finalId, {
+        mergedInto: undefined,
+        buildStepUrls: group.showSteps ? groupSlides.map((slide) => slide.imageUrl) : undefined,
+      });
+    }
+
+    return slides.map((slide) => ({
+      ...slide,
+      mergedInto: undefined,
+      buildStepUrls: undefined,
+      ...updates.get(slide.id),
+    }));
+  }
+
+  /**
+   * A build step changes a small part of the page, and mostly by drawing
+   * over what was background on the previous page
+   */
+  private static isBuildStep(previous: Thumbnail, next: Thumbnail): boolean {
+    const { pixelThreshold, maxChangedFraction, minAdditiveFraction } = API_CONFIG.buildDetection;
+    const total = previous.pixels.length;
+    let changed = 0;
+    let additive = 0;
+
+    for (let i = 0; i < total; i++) {
+      if (Math.abs(previous.pixels[i] - next.pixels[i]) <= pixelThreshold) continue;
+      changed++;
+      if (Math.abs(previous.pixels[i] - previous.background) <= pixelThreshold) {
+        additive++;
+      }
+    }
+
+    if (changed === 0) {
+      // Identical pages (e.g. a build step with no visible change)
+      return true;
+    }
+
+    return changed / total <= maxChangedFraction && additive / changed >= minAdditiveFraction;
+  }
+
+  private static async createThumbnail(imageBlob: Blob): Promise<Thumbnail> {
+    const { thumbnailWidth: width, thumbnailHeight: height } = API_CONFIG.buildDetection;
+    const bitmap = await createImageBitmap(imageBlob);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+
+    if (!context) {
+      bitmap.close();
+      throw new Error('Failed to get canvas context for build detection');
+    }
+
+    context.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    const { data } = context.getImageData(0, 0, width, height);
+    const pixels = new Uint8ClampedArray(width * height);
+    const histogram = new Array<number>(256).fill(0);
+
+    for (let i = 0; i < pixels.length; i++) {
+      const grey = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+      pixels[i] = grey;
+      histogram[grey]++;
+    }
+
+    // The most common grey level is taken as the page background
+    const background = histogram.indexOf(Math.max(...histogram));
+
+    return { pixels, background };
+  }
+}
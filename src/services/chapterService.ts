@@ -0,0 +1,104 @@
+import { API_CONFIG } from '../config/api';
+import type { Chapter, Slide } from '../types';
+import { isActiveSlide } from '../utils/slides';
+
+export interface TimedSlide {
+  slide: Slide;
+  startTime: number; // seconds
+  endTime: number;
+}
+
+/**
+ * Chapter Service - Turns slide sections into video chapters
+ * Timestamps follow the compiled video's timeline: each slide is shown for
+ * its audio plus the padding VideoCompiler inserts between slides. Decks
+ * without sections get a chapter per generated slide title instead.
+ */
+export class ChapterService {
+  static buildChapters(slides: Slide[]): Chapter[] {
+    const timeline = this.getTimeline(slides);
+    const useSections = timeline.some(({ slide }) => slide.section);
+
+    // Without sections or titles there is nothing to mark
+    if (!useSections && !timeline.some(({ slide }) => slide.title)) {
+      return [];
+    }
+
+    const chapters: Chapter[] = [];
+    let currentTitle: string | null = null;
+
+    for (const { slide, startTime } of timeline) {
+      const fallback: string | null = chapters.length === 0 ? slide.title || 'Introduction' : currentTitle;
+      const title: string | null = (useSections ? slide.section : slide.title) || fallback;
+
+      if (title && title !== currentTitle) {
+        chapters.push({ title, startTime, slideId: slide.id });
+        currentTitle = title;
+      }
+    }
+
+    return chapters;
+  }
+
+  /**
+   * When each rendered slide starts and ends in the video
+   */
+  static getTimeline(slides: Slide[]): TimedSlide[] {
+    const paddingSeconds = API_CONFIG.video.audioPadding / 1000;
+    let time = 0;
+
+    return slides.filter(isActiveSlide).map((slide) => {
+      const startTime = time;
+      time += (slide.audioDuration || 0) + paddingSeconds;
+      return { slide, startTime, endTime: time };
+    });
+  }
+
+  static formatTimestamp(seconds: number): string {
+    const total = Math.floor(seconds);
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const secs = String(total % 60).padStart(2, '0');
+
+    return hours > 0
+      ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}`
+      : `${minutes}:${secs}`;
+  }
+
+  /**
+   * Plain chapter list in the "0:00 Title" format video platforms accept
+   */
+  static toChapterList(chapters: Chapter[]): string {
+    return chapters
+      .map((chapter) => `${this.formatTimestamp(chapter.startTime)} ${chapter.title}`)
+      .join('\n');
+  }
+
+  /**
+   * WebVTT chapters track, usable as <track kind="chapters">
+   */
+  static toWebVTT(chapters: Chapter[], totalDuration: number): string {
+    const cues = chapters.map((chapter, index) => {
+      const end = chapters[index + 1]?.startTime ?? totalDuration;
+      return `${index + 1}\n${this.formatVTTTime(chapter.startTime)} --> ${this.formatVTTTime(end)}\n${chapter.title}`;
+    });
+
+    return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+  }
+
+  static getTotalDuration(slides: Slide[]): number {
+    const paddingSeconds = API_CONFIG.video.audioPadding / 1000;
+    return slides
+      .filter(isActiveSlide)
+      .reduce((sum, slide) => sum + (slide.audioDuration || 0) + paddingSeconds, 0);
+  }
+
+  static formatVTTTime(seconds: number): string {
+    const ms = Math.round(seconds * 1000);
+    const hours = String(Math.floor(ms / 3600000)).padStart(2, '0');
+    const minutes = String(Math.floor((ms % 3600000) / 60000)).padStart(2, '0');
+    const secs = String(Math.floor((ms % 60000) / 1000)).padStart(2, '0');
+    const millis = String(ms % 1000).padStart(3, '0');
+    return `${hours}:${minutes}:${secs}.${millis}`;
+  }
+}
@@ -0,0 +1,76 @@
+import { PDFService } from './pdfService';
+import { PPTXService } from './pptxService';
+import { ImageDeckService } from './imageDeckService';
+import { parsePageRange } from '../utils/pageRange';
+import type { DeckImportOptions, Slide } from '../types';
+
+export type DeckFormat = 'pdf' | 'pptx' | 'images';
+
+/**
+ * Picks the importer for an uploaded deck based on its type
+ */
+export class DeckImportService {
+  static readonly ACCEPT = '.pdf,.pptx';
+  static readonly ACCEPT_IMAGES = 'image/png,image/jpeg,image/webp,.zip';
+
+  static detectFormat(file: File): DeckFormat | null {
+    const name = file.name.toLowerCase();
+
+    if (file.type === 'application/pdf' || name.endsWith('.pdf')) {
+      return 'pdf';
+    }
+    if (file.type === PPTXService.MIME_TYPE || name.endsWith('.pptx')) {
+      return 'pptx';
+    }
+    if (ImageDeckService.isImage(file) || ImageDeckService.isZip(file)) {
+      return 'images';
+    }
+    return null;
+  }
+
+  /**
+   * A deck is either one PDF/PPTX file or any number of images and zips
+   */
+  static async extractSlides(files: File[], options: DeckImportOptions = {}): Promise<Slide[]> {
+    if (files.length === 0) {
+      throw new Error('No files selected');
+    }
+
+    const formats = files.map((file) => this.detectFormat(file));
+    const unsupported = files.find((_, index) => formats[index] === null);
+    if (unsupported) {
+      throw new Error(`Unsupported file type: ${unsupported.name}`);
+    }
+
+    if (formats.every((format) => format === 'images')) {
+      const slides = await ImageDeckService.extractSlides(files, options);
+      if (!options.pageRange?.trim()) return slides;
+
+      try {
+        const pages = new Set(parsePageRange(options.pageRange, slides.length));
+        this.releaseSlides(slides.filter((slide) => !pages.has(slide.pageNumber)));
+        return slides.filter((slide) => pages.has(slide.pageNumber));
+      } catch (error) {
+        this.releaseSlides(slides);
+        throw error;
+      }
+    }
+
+    if (files.length > 1) {
+      throw new Error('Upload a single PDF or PowerPoint file, or a set of slide images');
+    }
+
+    return formats[0] === 'pdf'
+      ? PDFService.extractSlides(files[0], options)
+      : PPTXService.extractSlides(files[0], options);
+  }
+
+  /**
+   * Slide images are object URLs; revoke them when a deck is discarded
+   */
+  static releaseSlides(slides: Slide[]): void {
+    for (const slide of slides) {
+      URL.revokeObjectURL(slide.imageUrl);
+    }
+  }
+}
@@ -4,10 +4,14 @@
  * No API key required, completely free
  */
 
-// @ts-ignore - edge-tts-universal doesn't have TypeScript types
 import { EdgeTTS } from 'edge-tts-universal/browser';
+import { TTS_PREVIEW_TEXT } from '../config/ttsProviders';
+import { playAudioBlob } from '../utils/audio';
+import type { SynthesisOptions, TTSEngine } from './ttsEngine';
+import type { TTSProvider, TTSVoice } from '../types';
 
-export class EdgeTTSService {
+export class EdgeTTSService implements TTSEngine {
+  readonly id: TTSProvider = 'edge';
   private audioContext: AudioContext;
 
   constructor() {
@@ -16,11 +20,16 @@ export class EdgeTTSService {
 
   /**
    * Generate speech using Microsoft Edge TTS and convert to AudioBuffer
+   * The client escapes its input, so markup arrives as plain chunks and
+   * rate and pitch go through its prosody options
    */
-  async generateSpeech(text: string, voiceId: string): Promise<AudioBuffer> {
+  async synthesize(text: string, voiceId: string, { rate = 1, pitch = 0 }: SynthesisOptions = {}): Promise<AudioBuffer> {
     try {
-      // Create EdgeTTS instance with text and voice
-      const tts = new EdgeTTS(text, voiceId);
+      // Create EdgeTTS instance with text, voice and prosody
+      const tts = new EdgeTTS(text, voiceId, {
+        rate: EdgeTTSService.toOffset((rate - 1) * 100),
+        pitch: EdgeTTSService.toOffset(pitch),
+      });
 
       // Synthesize speech
       const result = await tts.synthesize();
@@ -39,27 +48,13 @@ export class EdgeTTSService {
   }
 
   /**
-   * Create preview audio for voice selection
+   * Play a voice sample for voice selection
    */
-  async createPreviewAudio(voiceId: string): Promise<void> {
-    const sampleText = "Hello, I'm a professional voice for your presentation narration.";
-
+  async preview(voiceId: string): Promise<void> {
     try {
-      const tts = new EdgeTTS(sampleText, voiceId);
+      const tts = new EdgeTTS(TTS_PREVIEW_TEXT, voiceId);
       const result = await tts.synthesize();
-      const arrayBuffer = await result.audio.arrayBuffer();
-
-      // Create blob and play directly
-      const audioBlob = new Blob([arrayBuffer], { type: 'audio/mpeg' });
-      const audioUrl = URL.createObjectURL(audioBlob);
-      const audioElement = new Audio(audioUrl);
-
-      await audioElement.play();
-
-      // Cleanup URL after playing
-      audioElement.onended = () => {
-        URL.revokeObjectURL(audioUrl);
-      };
+      await playAudioBlob(result.audio);
     } catch (error) {
       console.error('[EdgeTTS] Preview error:', error);
       throw new Error(`Preview failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -69,7 +64,7 @@ export class EdgeTTSService {
   /**
    * Get available voices from Microsoft Edge TTS
    */
-  static async getAvailableVoices(): Promise<EdgeTTSVoice[]> {
+  async listVoices(): Promise<TTSVoice[]> {
     // Common high-quality Microsoft Edge voices
     // Full list available at: https://learn.microsoft.com/en-us/azure/ai-services/speech-service/language-support
     return [
@@ -102,7 +97,29 @@ export class EdgeTTSService {
       // Indian English
       { id: 'en-IN-NeerjaNeural', name: 'Neerja (IN Female)', locale: 'en-IN', gender: 'Female' },
       { id: 'en-IN-PrabhatNeural', name: 'Prabhat (IN Male)', locale: 'en-IN', gender: 'Male' },
-    ];
+
+      // German
+      { id: 'de-DE-KatjaNeural', name: 'Katja (DE Female)', locale: 'de-DE', gender: 'Female' },
+      { id: 'de-DE-ConradNeural', name: 'Conrad (DE Male)', locale: 'de-DE', gender: 'Male' },
+      { id: 'de-DE-AmalaNeural', name: 'Amala (DE Female)', locale: 'de-DE', gender: 'Female' },
+      { id: 'de-DE-KillianNeural', name: 'Killian (DE Male)', locale: 'de-DE', gender: 'Male' },
+
+      // Spanish
+      { id: 'es-ES-ElviraNeural', name: 'Elvira (ES Female)', locale: 'es-ES', gender: 'Female' },
+      { id: 'es-ES-AlvaroNeural', name: 'Alvaro (ES Male)', locale: 'es-ES', gender: 'Male' },
+      { id: 'es-MX-DaliaNeural', name: 'Dalia (MX Female)', locale: 'es-MX', gender: 'Female' },
+      { id: 'es-MX-JorgeNeural', name: 'Jorge (MX Male)', locale: 'es-MX', gender: 'Male' },
+
+      // Japanese
+      { id: 'ja-JP-NanamiNeural', name: 'Nanami (JP Female)', locale: 'ja-JP', gender: 'Female' },
+      { id: 'ja-JP-KeitaNeural', name: 'Keita (JP Male)', locale: 'ja-JP', gender: 'Male' },
+    ] satisfies EdgeTTSVoice[];
+  }
+
+  // Relative prosody value, e.g. "+10%" or "-5%"
+  private static toOffset(percent: number): string {
+    const rounded = Math.round(percent);
+    return `${rounded >= 0 ? '+' : ''}${rounded}%`;
   }
 
   getAudioContext(): AudioContext {
@@ -0,0 +1,127 @@
+/**
+ * Generation Scheduler - Runs batches of LLM requests
+ * Limits how many requests are in flight, retries rate limits and server
+ * errors with exponential backoff (honoring Retry-After) and stops as soon
+ * as the batch's AbortSignal fires.
+ */
+
+import { API_CONFIG } from '../config/api';
+import type { APIError, BatchProgress } from '../types';
+
+interface RunOptions {
+  concurrency: number;
+  signal: AbortSignal;
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+export class GenerationScheduler {
+  /**
+   * Run `task` for every item, at most `concurrency` at a time, in item order.
+   * Tasks report success by resolving true; they should not throw.
+   */
+  static async run<T>(
+    items: T[],
+    task: (item: T) => Promise<boolean>,
+    { concurrency, signal, onProgress }: RunOptions
+  ): Promise<BatchProgress> {
+    const progress: BatchProgress = { completed: 0, failed: 0, total: items.length };
+    let next = 0;
+
+    onProgress?.({ ...progress });
+
+    const worker = async () => {
+      while (next < items.length && !signal.aborted) {
+        const item = items[next++];
+        const succeeded = await task(item);
+
+        progress.completed++;
+        if (!succeeded) progress.failed++;
+        onProgress?.({ ...progress });
+      }
+    };
+
+    const workers = Array.from({ length: Math.min(concurrency, items.length) }, worker);
+    await Promise.all(workers);
+
+    return progress;
+  }
+
+  /**
+   * Call `request` until it succeeds, fails with a non-retryable error or
+   * runs out of attempts. A Retry-After beyond maxRetryAfterMs fails at once
+   * rather than holding the batch.
+   */
+  static async withRetry<R>(request: () => Promise<R>, signal?: AbortSignal): Promise<R> {
+    const { maxRetries, baseDelayMs, maxDelayMs, maxRetryAfterMs } = API_CONFIG.generation;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        if (this.isAbortError(error) || attempt >= maxRetries || !this.isRetryable(error)) {
+          throw error;
+        }
+
+        const { retryAfter } = error as APIError;
+        if (retryAfter !== undefined && retryAfter > maxRetryAfterMs) {
+          throw {
+            ...(error as APIError),
+            message: `Rate limited: the provider asked to wait ${Math.ceil(retryAfter / 1000)}s. Try again later.`,
+          } satisfies APIError;
+        }
+
+        const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt + Math.random() * baseDelayMs);
+        const delay = retryAfter ?? backoff;
+
+        console.log(
+          `[Scheduler] Request failed (${(error as APIError).status ?? 'network'}), retrying in ${Math.round(delay)}ms`
+        );
+        await this.sleep(delay, signal);
+      }
+    }
+  }
+
+  /**
+   * Retry-After is either a number of seconds or an HTTP date
+   */
+  static parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  static isAbortError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'AbortError';
+  }
+
+  /**
+   * Rate limits, server errors and network failures are worth another try
+   */
+  private static isRetryable(error: unknown): boolean {
+    if (error instanceof TypeError) return true; // fetch network failure
+    const status = (error as APIError)?.status;
+    return status === 408 || status === 429 || (status !== undefined && status >= 500);
+  }
+
+  private static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('Generation was stopped', 'AbortError'));
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('Generation was stopped', 'AbortError'));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Image Deck Service - Builds a deck from exported slide images
+ * Accepts PNG/JPEG/WebP files or a zip of them, ordered naturally by filename
+ * (slide2.png before slide10.png)
+ */
+
+import JSZip from 'jszip';
+import type { DeckImportOptions, Slide } from '../types';
+
+// Zip entries carry no type, so it comes from the extension
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+interface NamedImage {
+  name: string;
+  blob: Blob;
+}
+
+export class ImageDeckService {
+  static isImage(file: File): boolean {
+    return file.type.startsWith('image/') || this.hasImageExtension(file.name);
+  }
+
+  static isZip(file: File): boolean {
+    return (
+      file.type === 'application/zip' ||
+      file.type === 'application/x-zip-compressed' ||
+      file.name.toLowerCase().endsWith('.zip')
+    );
+  }
+
+  static async extractSlides(files: File[], options: DeckImportOptions = {}): Promise<Slide[]> {
+    const { signal, onProgress } = options;
+    const images: NamedImage[] = [];
+
+    for (const file of files) {
+      signal?.throwIfAborted();
+      if (this.isZip(file)) {
+        images.push(...(await this.readZip(file)));
+      } else if (this.isImage(file)) {
+        images.push({ name: file.name, blob: file });
+      }
+    }
+
+    if (images.length === 0) {
+      throw new Error('No slide images found (expected PNG, JPEG or WebP files)');
+    }
+
+    images.sort((a, b) => this.compareNames(a.name, b.name));
+
+    const slides: Slide[] = [];
+
+    for (let index = 0; index < images.length; index++) {
+      const { blob } = images[index];
+      slides.push({
+        id: `slide-${index + 1}`,
+        pageNumber: index + 1,
+        imageBlob: blob,
+        imageUrl: URL.createObjectURL(blob),
+        script: '',
+        wordCount: 0,
+        charCount: 0,
+      });
+      onProgress?.({
+        current: index + 1,
+        total: images.length,
+        message: `Loaded image ${index + 1} of ${images.length}`,
+      });
+    }
+
+    return slides;
+  }
+
+  /**
+   * Natural filename order, so "Slide 2" sorts before "Slide 10"
+   */
+  static compareNames(a: string, b: string): number {
+    return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+  }
+
+  private static async readZip(file: File): Promise<NamedImage[]> {
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+    const images: NamedImage[] = [];
+
+    for (const entry of Object.values(zip.files)) {
+      const baseName = entry.name.substring(entry.name.lastIndexOf('/') + 1);
+
+      // Skip folders, macOS resource forks and hidden files
+      if (entry.dir || entry.name.startsWith('__MACOSX/') || baseName.startsWith('.')) continue;
+      const type = this.getImageType(baseName);
+      if (!type) continue;
+
+      images.push({ name: entry.name, blob: new Blob([await entry.async('arraybuffer')], { type }) });
+    }
+
+    return images;
+  }
+
+  private static hasImageExtension(name: string): boolean {
+    return this.getImageType(name) !== undefined;
+  }
+
+  private static getImageType(name: string): string | undefined {
+    const lower = name.toLowerCase();
+    return IMAGE_TYPES[lower.substring(lower.lastIndexOf('.'))];
+  }
+}
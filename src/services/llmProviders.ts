@@ -0,0 +1,343 @@
+/**
+ * LLM Providers - Chat completion backends for script generation
+ * Each provider turns a prompt (text plus slide image) into text, optionally
+ * streaming it. OpenRouter, OpenAI and local servers such as Ollama or
+ * llama.cpp all speak the OpenAI chat format; Anthropic has its own.
+ */
+
+import { getLLMProvider } from '../config/models';
+import { GenerationScheduler } from './generationScheduler';
+import type { APIError, LLMSettings, TokenUsage } from '../types';
+
+export type MessagePart = { type: 'text'; text: string } | { type: 'image'; dataUrl: string };
+
+export interface CompletionRequest {
+  model: string;
+  content: MessagePart[];
+  maxTokens: number;
+  signal?: AbortSignal;
+  onToken?: (text: string) => void; // streams the text so far
+}
+
+export interface CompletionResult {
+  text: string;
+  usage?: TokenUsage;
+}
+
+// Usage as reported by OpenAI-style APIs (OpenRouter adds `cost`) and Anthropic
+interface UsagePayload {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  cost?: number;
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+// Fields read from OpenAI-style chunks and Anthropic events
+interface StreamEvent {
+  type?: string;
+  error?: { message?: string };
+  choices?: { delta?: { content?: string } }[];
+  delta?: { text?: string };
+  usage?: UsagePayload;
+  message?: { usage?: UsagePayload };
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+export function createLLMProvider(settings: LLMSettings): LLMProvider {
+  const baseUrl = (settings.baseUrl || getLLMProvider(settings.provider).defaultBaseUrl).replace(/\/+$/, '');
+
+  switch (settings.provider) {
+    case 'anthropic':
+      return new AnthropicProvider(baseUrl, settings.apiKey);
+    case 'openai':
+      return new OpenAICompatibleProvider(baseUrl, settings.apiKey, 'OpenAI');
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(baseUrl, settings.apiKey, 'Local LLM');
+    case 'openrouter':
+    default:
+      return new OpenRouterProvider(baseUrl, settings.apiKey);
+  }
+}
+
+export function isAPIError(error: unknown): error is APIError {
+  return typeof error === 'object' && error !== null && !(error instanceof Error) && 'message' in error;
+}
+
+export function createAPIError(
+  message: string,
+  details?: unknown,
+  status?: number,
+  retryAfter?: number,
+  code?: string
+): APIError {
+  return {
+    message,
+    code,
+    details,
+    status,
+    retryAfter,
+  } as APIError;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  protected baseUrl: string;
+  protected apiKey: string;
+
+  constructor(baseUrl: string, apiKey: string, name = 'OpenAI-compatible') {
+    this.baseUrl = baseUrl;
+    this.apiKey = apiKey;
+    this.name = name;
+  }
+
+  async complete({ model, content, maxTokens, signal, onToken }: CompletionRequest): Promise<CompletionResult> {
+    const response = await postJSON(
+      this.name,
+      `${this.baseUrl}/chat/completions`,
+      this.getHeaders(),
+      {
+        model,
+        messages: [
+          {
+            role: 'user',
+            content: content.map((part) =>
+              part.type === 'text'
+                ? part
+                : { type: 'image_url', image_url: { url: part.dataUrl } }
+            ),
+          },
+        ],
+        max_tokens: maxTokens,
+        stream: !!onToken,
+        ...this.getExtraBody(!!onToken),
+      },
+      signal
+    );
+
+    if (onToken && response.body) {
+      let usage: TokenUsage | undefined;
+      const text = await readEventStream(this.name, response.body, onToken, (chunk) => {
+        if (chunk.error) throw chunk.error;
+        // The final chunk carries the usage for the whole completion
+        if (chunk.usage) usage = toTokenUsage(chunk.usage);
+        return chunk.choices?.[0]?.delta?.content;
+      });
+      return { text, usage };
+    }
+
+    const data = await response.json();
+    return {
+      text: data.choices?.[0]?.message?.content || '',
+      usage: data.usage ? toTokenUsage(data.usage) : undefined,
+    };
+  }
+
+  protected getExtraBody(stream: boolean): Record<string, unknown> {
+    return stream ? { stream_options: { include_usage: true } } : {};
+  }
+
+  protected getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Local servers usually run without a key
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+}
+
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  constructor(baseUrl: string, apiKey: string) {
+    super(baseUrl, apiKey, 'OpenRouter');
+  }
+
+  // OpenRouter reports the charged cost alongside the token counts
+  protected getExtraBody(): Record<string, unknown> {
+    return { usage: { include: true } };
+  }
+
+  protected getHeaders(): Record<string, string> {
+    return {
+      ...super.getHeaders(),
+      'HTTP-Referer': window.location.origin,
+      'X-Title': 'Deck Narrator',
+    };
+  }
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'Anthropic';
+  private baseUrl: string;
+  private apiKey: string;
+
+  constructor(baseUrl: string, apiKey: string) {
+    this.baseUrl = baseUrl;
+    this.apiKey = apiKey;
+  }
+
+  async complete({ model, content, maxTokens, signal, onToken }: CompletionRequest): Promise<CompletionResult> {
+    const response = await postJSON(
+      this.name,
+      `${this.baseUrl}/messages`,
+      {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01',
+        // Required for calls made directly from the browser
+        'anthropic-dangerous-direct-browser-access': 'true',
+      },
+      {
+        model,
+        max_tokens: maxTokens,
+        messages: [{ role: 'user', content: content.map((part) => this.toContentBlock(part)) }],
+        stream: !!onToken,
+      },
+      signal
+    );
+
+    if (onToken && response.body) {
+      // Input tokens arrive with message_start, output tokens with message_delta
+      const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+      const text = await readEventStream(this.name, response.body, onToken, (event) => {
+        if (event.type === 'error') throw event.error;
+        if (event.message?.usage) usage.promptTokens = event.message.usage.input_tokens || 0;
+        if (event.type === 'message_delta' && event.usage) {
+          usage.completionTokens = event.usage.output_tokens || 0;
+        }
+        return event.type === 'content_block_delta' ? event.delta?.text : undefined;
+      });
+      return { text, usage };
+    }
+
+    const data = await response.json();
+    return {
+      text: (data.content || [])
+        .filter((block: { type: string }) => block.type === 'text')
+        .map((block: { text: string }) => block.text)
+        .join(''),
+      usage: data.usage ? toTokenUsage(data.usage) : undefined,
+    };
+  }
+
+  private toContentBlock(part: MessagePart) {
+    if (part.type === 'text') return part;
+
+    const [header, data] = part.dataUrl.split(',');
+    const mediaType = header.replace(/^data:/, '').replace(/;base64$/, '');
+    return { type: 'image', source: { type: 'base64', media_type: mediaType, data } };
+  }
+}
+
+function toTokenUsage(usage: UsagePayload): TokenUsage {
+  return {
+    promptTokens: usage.prompt_tokens ?? usage.input_tokens ?? 0,
+    completionTokens: usage.completion_tokens ?? usage.output_tokens ?? 0,
+    cost: usage.cost,
+  };
+}
+
+async function postJSON(
+  providerName: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    console.error(`[LLM] ${providerName} API error:`, {
+      status: response.status,
+      statusText: response.statusText,
+      error: error,
+    });
+    const detail = error?.error?.message;
+    throw createAPIError(
+      `${providerName} API error: ${response.status} ${response.statusText}${detail ? ` - ${detail}` : ''}`,
+      error,
+      response.status,
+      GenerationScheduler.parseRetryAfter(response.headers.get('Retry-After'))
+    );
+  }
+
+  return response;
+}
+
+/**
+ * Accumulate the text deltas of a server-sent event stream. If the stream
+ * breaks after text has arrived, the error carries that partial text and is
+ * not retried, so what was already shown is kept.
+ */
+async function readEventStream(
+  providerName: string,
+  body: ReadableStream<Uint8Array>,
+  onToken: (text: string) => void,
+  // Returns the event's text delta; throws the provider's error payload
+  getDelta: (event: StreamEvent) => string | undefined
+): Promise<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        // Skip keep-alive comments and `event:` lines; the payload names its type
+        if (!line.startsWith('data:')) continue;
+
+        const payload = line.slice(5).trim();
+        if (payload === '[DONE]') return text;
+
+        let delta: string | undefined;
+        try {
+          delta = getDelta(JSON.parse(payload));
+        } catch (streamError) {
+          const message = (streamError as { message?: string })?.message || 'unknown error';
+          throw createAPIError(`${providerName} stream error: ${message}`, {
+            error: streamError,
+            partial: text,
+          });
+        }
+
+        if (delta) {
+          text += delta;
+          onToken(text);
+        }
+      }
+    }
+  } catch (error) {
+    if (GenerationScheduler.isAbortError(error) || isAPIError(error) || !text) {
+      throw error;
+    }
+    throw createAPIError(
+      'Stream was cut off; the partial script was kept',
+      { partial: text, cause: error },
+      undefined,
+      undefined,
+      'STREAM_INTERRUPTED'
+    );
+  } finally {
+    reader.releaseLock();
+  }
+
+  return text;
+}
@@ -0,0 +1,185 @@
+/**
+ * Model Catalogue Service - Live OpenRouter model list and cost maths
+ * Fetches OpenRouter's public model listing, keeps the image-capable models
+ * with their real per-token prices and caches them in localStorage so the
+ * picker still works offline. Also estimates what a script run will cost.
+ */
+
+import { API_CONFIG } from '../config/api';
+import { OPENROUTER_MODELS, type OpenRouterModel } from '../config/models';
+import { PromptTemplateService } from './promptTemplateService';
+import type { CostEstimate, ModelPricing, PromptTemplate, Slide, TokenUsage } from '../types';
+
+const CACHE_KEY = 'deck-narrator:openrouter-models';
+
+// Subset of an entry in OpenRouter's /models response that we read
+interface CatalogEntry {
+  id: string;
+  name: string;
+  description?: string;
+  context_length?: number;
+  architecture?: { input_modalities?: string[] };
+  pricing?: { prompt?: string; completion?: string; image?: string };
+}
+
+export interface ModelCatalog {
+  models: OpenRouterModel[];
+  fetchedAt: number | null; // null when falling back to the built-in list
+  stale: boolean;
+}
+
+export class ModelCatalogService {
+  /**
+   * Cached catalogue if fresh, otherwise the live listing; falls back to the
+   * stale cache and then the built-in list when offline
+   */
+  static async loadCatalog(forceRefresh = false): Promise<ModelCatalog> {
+    const cached = this.readCache();
+
+    if (cached && !forceRefresh && Date.now() - cached.fetchedAt < API_CONFIG.modelCatalog.cacheTtlMs) {
+      return { models: cached.models, fetchedAt: cached.fetchedAt, stale: false };
+    }
+
+    try {
+      const models = await this.fetchVisionModels();
+      const fetchedAt = Date.now();
+      this.writeCache(models, fetchedAt);
+      return { models, fetchedAt, stale: false };
+    } catch (error) {
+      console.warn('[ModelCatalog] Could not fetch model list:', error);
+      if (cached) {
+        return { models: cached.models, fetchedAt: cached.fetchedAt, stale: true };
+      }
+      return { models: OPENROUTER_MODELS, fetchedAt: null, stale: true };
+    }
+  }
+
+  static isFree(pricing?: ModelPricing): boolean {
+    return !!pricing && pricing.prompt === 0 && pricing.completion === 0 && pricing.image === 0;
+  }
+
+  /**
+   * Rough cost of writing scripts for `slides` (plus the outline request when
+   * the deck has more than one slide). Prompt size is approximated from the
+   * template, slide text and the context each request carries. Replies that
+   * need a JSON repair cost one more request each, which is not counted.
+   */
+  static estimateCost(
+    slides: Slide[],
+    pricing: ModelPricing,
+    template: PromptTemplate,
+    includeOutline: boolean
+  ): CostEstimate {
+    const { charsPerToken, imageTokens } = API_CONFIG.modelCatalog;
+    const { outlineMaxTokens, outlineCharsPerSlide } = API_CONFIG.llm;
+    const toTokens = (chars: number) => Math.ceil(chars / charsPerToken);
+
+    const completionPerSlide = PromptTemplateService.getScriptMaxTokens(template);
+    const contextChars = outlineMaxTokens * charsPerToken + template.variables.targetWords * 6;
+    const templateChars = PromptTemplateService.render(template).length;
+
+    let promptTokens = 0;
+    let completionTokens = 0;
+    let imageCost = 0;
+
+    for (const slide of slides) {
+      const slideChars = (slide.textContent || slide.ocrText || '').length + (slide.instructions || '').length;
+      promptTokens += toTokens(templateChars + slideChars + contextChars);
+      if (pricing.image > 0) {
+        imageCost += pricing.image;
+      } else {
+        promptTokens += imageTokens;
+      }
+      completionTokens += completionPerSlide;
+    }
+
+    if (includeOutline) {
+      promptTokens += toTokens(slides.length * outlineCharsPerSlide);
+      completionTokens += outlineMaxTokens;
+    }
+
+    return {
+      requests: slides.length + (includeOutline ? 1 : 0),
+      promptTokens,
+      completionTokens,
+      cost: promptTokens * pricing.prompt + completionTokens * pricing.completion + imageCost,
+    };
+  }
+
+  /**
+   * Fill in the cost of a response from known pricing when the provider did
+   * not report it
+   */
+  static priceUsage(usage: TokenUsage, pricing: ModelPricing | undefined, imageCount: number): TokenUsage {
+    if (usage.cost !== undefined || !pricing) return usage;
+    return {
+      ...usage,
+      cost:
+        usage.promptTokens * pricing.prompt +
+        usage.completionTokens * pricing.completion +
+        imageCount * pricing.image,
+    };
+  }
+
+  static formatCost(cost: number): string {
+    if (cost === 0) return 'Free';
+    if (cost < 0.01) return `$${cost.toFixed(4)}`;
+    return `$${cost.toFixed(2)}`;
+  }
+
+  /**
+   * Price per million tokens, the way OpenRouter displays it
+   */
+  static formatPricing(pricing: ModelPricing): string {
+    if (this.isFree(pricing)) return 'Free';
+    const perMillion = (price: number) => `$${(price * 1_000_000).toFixed(2)}`;
+    const image = pricing.image > 0 ? ` • ${this.formatCost(pricing.image)}/image` : '';
+    return `${perMillion(pricing.prompt)}/M input • ${perMillion(pricing.completion)}/M output${image}`;
+  }
+
+  private static async fetchVisionModels(): Promise<OpenRouterModel[]> {
+    const response = await fetch(API_CONFIG.modelCatalog.url);
+    if (!response.ok) {
+      throw new Error(`OpenRouter model list error: ${response.status} ${response.statusText}`);
+    }
+
+    const { data } = (await response.json()) as { data: CatalogEntry[] };
+
+    return data
+      .filter((entry) => entry.architecture?.input_modalities?.includes('image'))
+      .map((entry) => {
+        const pricing: ModelPricing = {
+          prompt: Number(entry.pricing?.prompt) || 0,
+          completion: Number(entry.pricing?.completion) || 0,
+          image: Number(entry.pricing?.image) || 0,
+        };
+        return {
+          id: entry.id,
+          name: entry.name,
+          description: entry.description || '',
+          free: this.isFree(pricing),
+          supportsVision: true,
+          pricing,
+          contextLength: entry.context_length,
+        };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private static readCache(): { models: OpenRouterModel[]; fetchedAt: number } | null {
+    try {
+      const stored = localStorage.getItem(CACHE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private static writeCache(models: OpenRouterModel[], fetchedAt: number): void {
+    try {
+      localStorage.setItem(CACHE_KEY, JSON.stringify({ models, fetchedAt }));
+    } catch (error) {
+      console.warn('[ModelCatalog] Could not cache model list:', error);
+    }
+  }
+}
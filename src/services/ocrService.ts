@@ -0,0 +1,82 @@
+/**
+ * OCR Service - Recognizes text on slides without a text layer
+ * Scanned PDFs and image decks carry no extractable text, so their pages are
+ * run through Tesseract (WASM) in the browser. The worker script, core and
+ * English model are bundled by Vite, so nothing is fetched from a CDN.
+ */
+
+import { createWorker, OEM } from 'tesseract.js';
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+import coreUrl from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+import engDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import { API_CONFIG } from '../config/api';
+import type { DeckImportOptions, Slide } from '../types';
+
+export class OCRService {
+  /**
+   * Attach recognized text to every slide that has no text of its own
+   */
+  static async recognizeSlides(
+    slides: Slide[],
+    options: Pick<DeckImportOptions, 'signal' | 'onProgress'> = {}
+  ): Promise<Slide[]> {
+    const { signal, onProgress } = options;
+    const pending = slides.filter((slide) => !slide.textContent?.trim() && !slide.ocrText);
+
+    if (pending.length === 0) {
+      return slides;
+    }
+
+    console.log(`[OCR] Recognizing text on ${pending.length} slides`);
+
+    const worker = await this.createWorker();
+    const recognized = new Map<string, string>();
+
+    try {
+      for (let i = 0; i < pending.length; i++) {
+        if (signal?.aborted) {
+          throw new DOMException('Deck import was cancelled', 'AbortError');
+        }
+
+        onProgress?.({
+          current: i + 1,
+          total: pending.length,
+          message: `Recognizing text on slide ${i + 1} of ${pending.length}...`,
+        });
+
+        const { data } = await worker.recognize(pending[i].imageBlob);
+        const text = data.text.replace(/\n{3,}/g, '\n\n').trim();
+
+        if (text && data.confidence >= API_CONFIG.ocr.minConfidence) {
+          recognized.set(pending[i].id, text);
+        } else {
+          console.log(
+            `[OCR] Discarded text for slide ${pending[i].pageNumber} (confidence ${Math.round(data.confidence)})`
+          );
+        }
+      }
+    } finally {
+      await worker.terminate();
+    }
+
+    return slides.map((slide) =>
+      recognized.has(slide.id) ? { ...slide, ocrText: recognized.get(slide.id) } : slide
+    );
+  }
+
+  private static async createWorker() {
+    const response = await fetch(engDataUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to load OCR language data: ${response.status}`);
+    }
+
+    const data = new Uint8Array(await response.arrayBuffer());
+
+    return createWorker([{ code: API_CONFIG.ocr.language, data }], OEM.LSTM_ONLY, {
+      workerPath: workerUrl,
+      corePath: coreUrl,
+      workerBlobURL: false,
+      cacheMethod: 'none',
+    });
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Pacing Service - Fits the narration to a target video length
+ * Learns how fast each voice speaks from the audio it has generated, then
+ * splits the word count the target allows across slides by how much each
+ * slide has to say.
+ */
+
+import { API_CONFIG } from '../config/api';
+import { countSpokenWords, getPauseSeconds } from '../utils/speechMarkup';
+import type { Slide, SpeechRate, TTSProvider } from '../types';
+
+const STORAGE_KEY = 'deck-narrator:speech-rates';
+
+// Words spoken and seconds of audio measured for one voice
+interface RateSample {
+  words: number;
+  seconds: number;
+}
+
+export class PacingService {
+  static getVoiceKey(provider: TTSProvider, voiceId: string): string {
+    return `${provider}:${voiceId}`;
+  }
+
+  static getSpeechRate(voiceKey: string): SpeechRate {
+    const sample = this.loadSamples()[voiceKey];
+
+    if (!sample || sample.words < API_CONFIG.pacing.minCalibrationWords || sample.seconds <= 0) {
+      return { wordsPerSecond: API_CONFIG.pacing.defaultWordsPerSecond, calibrated: false };
+    }
+
+    return { wordsPerSecond: sample.words / sample.seconds, calibrated: true };
+  }
+
+  /**
+   * Add a measured clip to the voice's rate; old measurements fade out so
+   * the rate follows the current scripts
+   */
+  static recordSample(voiceKey: string, words: number, seconds: number): void {
+    if (words === 0 || seconds <= 0) return;
+
+    const samples = this.loadSamples();
+    const previous = samples[voiceKey] || { words: 0, seconds: 0 };
+    let sample = { words: previous.words + words, seconds: previous.seconds + seconds };
+
+    const { maxCalibrationWords } = API_CONFIG.pacing;
+    if (sample.words > maxCalibrationWords) {
+      const scale = maxCalibrationWords / sample.words;
+      sample = { words: sample.words * scale, seconds: sample.seconds * scale };
+    }
+
+    samples[voiceKey] = sample;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(samples));
+    } catch (error) {
+      console.warn('[Pacing] Could not save speech rates:', error);
+    }
+  }
+
+  /**
+   * Words per slide that fill `targetSeconds`, weighted by how much text
+   * each slide carries. Slides are expected to be the narrated ones.
+   */
+  static allocateWordBudgets(
+    slides: Slide[],
+    targetSeconds: number,
+    wordsPerSecond: number
+  ): Map<string, number> {
+    const { minWordsPerSlide, densityCharsPerWeight, maxDensityWeight } = API_CONFIG.pacing;
+    const paddingSeconds = API_CONFIG.video.audioPadding / 1000;
+
+    const weights = slides.map((slide) => {
+      const text = slide.textContent || slide.ocrText || slide.speakerNotes || '';
+      return Math.min(1 + text.trim().length / densityCharsPerWeight, maxDensityWeight);
+    });
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+    // The pauses between slides come out of the target first
+    const speakingSeconds = Math.max(0, targetSeconds - slides.length * paddingSeconds);
+    const totalWords = speakingSeconds * wordsPerSecond;
+
+    return new Map(
+      slides.map((slide, i) => [
+        slide.id,
+        Math.max(minWordsPerSlide, Math.round((totalWords * weights[i]) / totalWeight)),
+      ])
+    );
+  }
+
+  /**
+   * Expected video length from the current scripts, including the padding
+   * VideoCompiler adds after each slide
+   */
+  static projectDuration(slides: Slide[], wordsPerSecond: number): number {
+    const paddingSeconds = API_CONFIG.video.audioPadding / 1000;
+    return slides.reduce((total, slide) => total + this.estimateSeconds(slide, wordsPerSecond) + paddingSeconds, 0);
+  }
+
+  /**
+   * Expected length of one slide's narration, with its rate and pauses
+   */
+  static estimateSeconds(slide: Slide, wordsPerSecond: number): number {
+    const rate = slide.prosody?.rate || 1;
+    return countSpokenWords(slide.script) / (wordsPerSecond * rate) + getPauseSeconds(slide.script);
+  }
+
+  /**
+   * Whether a script is far enough from its budget to be worth rewriting
+   */
+  static isOffBudget(wordCount: number, budget: number): boolean {
+    return Math.abs(wordCount - budget) > budget * API_CONFIG.pacing.fitTolerance;
+  }
+
+  private static loadSamples(): Record<string, RateSample> {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch {
+      return {};
+    }
+  }
+}
@@ -1,102 +1,143 @@
 import { API_CONFIG } from '../config/api';
-import type { Slide } from '../types';
-
-declare global {
-  interface Window {
-    pdfjsLib: {
-      GlobalWorkerOptions: { workerSrc: string };
-      getDocument: (src: ArrayBuffer | Uint8Array | { data: ArrayBuffer }) => {
-        promise: Promise<PDFDocumentProxy>;
-      };
-    };
+import { parsePageRange } from '../utils/pageRange';
+import type { DeckImportOptions, DeckSection, Slide } from '../types';
+import type { PDFWorkerRequest, PDFWorkerResponse } from '../workers/pdfRasterizer.worker';
+import type { PDFOpenFailure } from './pdfjs';
+
+const OPEN_FAILURE_MESSAGES: Record<PDFOpenFailure, string> = {
+  'password-required': 'This PDF is password-protected. Enter its password to open it.',
+  'password-incorrect': 'Incorrect password. Please try again.',
+  'invalid-pdf': 'This file is damaged or is not a valid PDF.',
+};
+
+/**
+ * Raised when a PDF cannot be opened; `failure` tells a missing or wrong
+ * password apart from a corrupt file
+ */
+export class PDFOpenError extends Error {
+  readonly failure: PDFOpenFailure;
+
+  constructor(failure: PDFOpenFailure) {
+    super(OPEN_FAILURE_MESSAGES[failure]);
+    this.name = 'PDFOpenError';
+    this.failure = failure;
   }
-}
-
-interface PDFDocumentProxy {
-  numPages: number;
-  getPage: (pageNumber: number) => Promise<PDFPageProxy>;
-}
 
-interface PDFPageProxy {
-  getViewport: (params: { scale: number }) => PDFViewport;
-  render: (params: { canvasContext: CanvasRenderingContext2D; viewport: PDFViewport }) => {
-    promise: Promise<void>;
-  };
-}
-
-interface PDFViewport {
-  width: number;
-  height: number;
+  get needsPassword(): boolean {
+    return this.failure === 'password-required' || this.failure === 'password-incorrect';
+  }
 }
 
 export class PDFService {
-  private static initialized = false;
-
-  static async initialize(): Promise<void> {
-    if (this.initialized) return;
-
-    // Load PDF.js library from CDN
-    await this.loadScript(`${API_CONFIG.pdfJs.cdnUrl}/pdf.min.js`);
-
-    // Set worker
-    window.pdfjsLib.GlobalWorkerOptions.workerSrc =
-      `${API_CONFIG.pdfJs.cdnUrl}/pdf.worker.min.js`;
-
-    this.initialized = true;
-  }
-
-  private static loadScript(src: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const script = document.createElement('script');
-      script.src = src;
-      script.onload = () => resolve();
-      script.onerror = () => reject(new Error(`Failed to load script: ${src}`));
-      document.head.appendChild(script);
+  /**
+   * Rasterize the PDF in a worker so large decks do not freeze the tab.
+   * Pages stream back one at a time as PNG Blobs, reported through
+   * `onProgress`; aborting `signal` terminates the worker.
+   */
+  static async extractSlides(file: File, options: DeckImportOptions = {}): Promise<Slide[]> {
+    const { signal, onProgress } = options;
+    signal?.throwIfAborted();
+
+    const worker = new Worker(new URL('../workers/pdfRasterizer.worker.ts', import.meta.url), {
+      type: 'module',
     });
-  }
-
-  static async extractSlides(file: File): Promise<Slide[]> {
-    await this.initialize();
-
-    const arrayBuffer = await file.arrayBuffer();
-    const pdf = await window.pdfjsLib.getDocument({ data: arrayBuffer }).promise;
     const slides: Slide[] = [];
 
-    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
-      const page = await pdf.getPage(pageNum);
-      const viewport = page.getViewport({ scale: API_CONFIG.pdfJs.scale });
-
-      // Create canvas
-      const canvas = document.createElement('canvas');
-      canvas.width = viewport.width;
-      canvas.height = viewport.height;
-      const context = canvas.getContext('2d');
-
-      if (!context) {
-        throw new Error(`Failed to get canvas context for page ${pageNum}`);
-      }
-
-      // Render PDF page to canvas
-      await page.render({ canvasContext: context, viewport }).promise;
-
-      // Convert to base64 PNG
-      const imageDataUrl = canvas.toDataURL('image/png');
+    const send = (request: PDFWorkerRequest, transfer: Transferable[] = []) => {
+      worker.postMessage(request, transfer);
+    };
 
-      slides.push({
-        id: `slide-${pageNum}`,
-        pageNumber: pageNum,
-        imageDataUrl,
-        script: '',
-        wordCount: 0,
-        charCount: 0,
+    try {
+      return await new Promise<Slide[]>((resolve, reject) => {
+        let pages: number[] = [];
+        let sections: DeckSection[] = [];
+
+        const onAbort = () => reject(signal?.reason);
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        worker.onerror = (event) => {
+          reject(new Error(`PDF rasterizer failed: ${event.message || 'unknown error'}`));
+        };
+
+        worker.onmessage = (event: MessageEvent<PDFWorkerResponse>) => {
+          const response = event.data;
+
+          switch (response.type) {
+            case 'opened':
+              sections = response.sections;
+              try {
+                pages = parsePageRange(options.pageRange || '', response.numPages);
+              } catch (error) {
+                reject(error);
+                return;
+              }
+              onProgress?.({ current: 0, total: pages.length, message: 'Rendering pages...' });
+              send({
+                type: 'render',
+                pages,
+                scale: API_CONFIG.pdfJs.scale,
+                maxWidth: API_CONFIG.pdfJs.maxWidth,
+              });
+              break;
+
+            case 'page':
+              slides.push({
+                id: `slide-${response.pageNumber}`,
+                pageNumber: response.pageNumber,
+                imageBlob: response.imageBlob,
+                imageUrl: URL.createObjectURL(response.imageBlob),
+                script: '',
+                wordCount: 0,
+                charCount: 0,
+                textContent: response.textContent,
+                links: response.links,
+                annotations: response.annotations,
+                section: this.findSection(sections, response.pageNumber),
+              });
+              onProgress?.({
+                current: slides.length,
+                total: pages.length,
+                message: `Rendered page ${response.pageNumber} (${slides.length} of ${pages.length})`,
+              });
+              break;
+
+            case 'done':
+              signal?.removeEventListener('abort', onAbort);
+              resolve(slides);
+              break;
+
+            case 'error':
+              reject(response.failure ? new PDFOpenError(response.failure) : new Error(response.message));
+              break;
+          }
+        };
+
+        file.arrayBuffer().then(
+          (data) => send({ type: 'open', data, password: options.password }, [data]),
+          reject
+        );
       });
+    } catch (error) {
+      // Release the pages that were already rendered before the failure
+      for (const slide of slides) {
+        URL.revokeObjectURL(slide.imageUrl);
+      }
+      throw error;
+    } finally {
+      worker.terminate();
     }
-
-    return slides;
   }
 
-  static countWords(text: string): number {
-    return text.trim().split(/\s+/).filter(word => word.length > 0).length;
+  /**
+   * A page belongs to the last bookmark section that starts at or before it
+   */
+  static findSection(sections: DeckSection[], pageNumber: number): string | undefined {
+    let title: string | undefined;
+    for (const section of sections) {
+      if (section.pageNumber > pageNumber) break;
+      title = section.title;
+    }
+    return title;
   }
 
   static countChars(text: string): number {
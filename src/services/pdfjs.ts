@@ -0,0 +1,163 @@
+/**
+ * Bundled pdf.js - typed wrapper used by the rasterizer worker
+ * Everything pdf.js needs (parser, CMaps, standard fonts, wasm decoders) is
+ * shipped through Vite, so PDF import works with no network access.
+ */
+
+import { getDocument, PasswordResponses, type PDFDocumentProxy, type PDFPageProxy } from 'pdfjs-dist';
+import * as pdfjsWorker from 'pdfjs-dist/build/pdf.worker.min.mjs';
+
+export type { PDFDocumentProxy, PDFPageProxy };
+
+export type PDFOpenFailure = 'password-required' | 'password-incorrect' | 'invalid-pdf';
+
+// The rasterizer already runs off the main thread, so let pdf.js parse in
+// this thread instead of spawning a nested worker
+(globalThis as { pdfjsWorker?: unknown }).pdfjsWorker = pdfjsWorker;
+
+const BUNDLED_DATA: Record<string, Record<string, string>> = {
+  cMapUrl: byFileName(
+    import.meta.glob<string>('/node_modules/pdfjs-dist/cmaps/*.bcmap', {
+      query: '?url',
+      import: 'default',
+      eager: true,
+    })
+  ),
+  standardFontDataUrl: byFileName(
+    import.meta.glob<string>('/node_modules/pdfjs-dist/standard_fonts/*.{pfb,ttf}', {
+      query: '?url',
+      import: 'default',
+      eager: true,
+    })
+  ),
+  wasmUrl: byFileName(
+    import.meta.glob<string>('/node_modules/pdfjs-dist/wasm/*.wasm', {
+      query: '?url',
+      import: 'default',
+      eager: true,
+    })
+  ),
+};
+
+function byFileName(modules: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(modules).map(([path, url]) => [path.substring(path.lastIndexOf('/') + 1), url])
+  );
+}
+
+/**
+ * Serves CMaps, standard fonts and wasm files from the bundled assets
+ */
+class BundledBinaryDataFactory {
+  async fetch({ kind, filename }: { kind: string; filename: string }): Promise<Uint8Array> {
+    const url = BUNDLED_DATA[kind]?.[filename];
+    if (!url) {
+      throw new Error(`pdf.js data file is not bundled: ${filename}`);
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load pdf.js data file ${filename}: ${response.status}`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  }
+}
+
+/**
+ * pdf.js creates scratch canvases through a factory; the default one needs a
+ * DOM document, which workers do not have
+ */
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(target: { canvas: OffscreenCanvas }, width: number, height: number) {
+    target.canvas.width = width;
+    target.canvas.height = height;
+  }
+
+  destroy(target: { canvas: OffscreenCanvas | null; context: unknown }) {
+    if (target.canvas) {
+      target.canvas.width = 0;
+      target.canvas.height = 0;
+    }
+    target.canvas = null;
+    target.context = null;
+  }
+}
+
+/**
+ * SVG filters need a DOM document; render without them in the worker
+ */
+class NoopFilterFactory {
+  addFilter() {
+    return 'none';
+  }
+
+  addHCMFilter() {
+    return 'none';
+  }
+
+  addAlphaFilter() {
+    return 'none';
+  }
+
+  addLuminosityFilter() {
+    return 'none';
+  }
+
+  addHighlightHCMFilter() {
+    return 'none';
+  }
+
+  destroy() {}
+}
+
+export function openPDF(data: ArrayBuffer, password?: string): Promise<PDFDocumentProxy> {
+  return getDocument({
+    data,
+    password,
+    CanvasFactory: OffscreenCanvasFactory,
+    FilterFactory: NoopFilterFactory,
+    BinaryDataFactory: BundledBinaryDataFactory,
+    useWorkerFetch: false,
+    isOffscreenCanvasSupported: true,
+    // Font faces need a DOM document; draw glyphs as paths instead
+    disableFontFace: true,
+  }).promise;
+}
+
+/**
+ * Tell password and corrupt-file failures apart from other errors.
+ * pdf.js rebuilds errors when they cross its message port, so match on the
+ * exception name rather than the class.
+ */
+export function classifyOpenError(error: unknown): PDFOpenFailure | null {
+  const { name, code } = (error || {}) as { name?: string; code?: number };
+
+  if (name === 'PasswordException') {
+    return code === PasswordResponses.INCORRECT_PASSWORD ? 'password-incorrect' : 'password-required';
+  }
+  if (name === 'InvalidPDFException') {
+    return 'invalid-pdf';
+  }
+  return null;
+}
+
+/**
+ * Render a page into a 2D context of an OffscreenCanvas
+ */
+export async function renderToContext(
+  page: PDFPageProxy,
+  context: OffscreenCanvasRenderingContext2D,
+  scale: number
+): Promise<void> {
+  await page.render({
+    canvas: null,
+    // pdf.js only uses the 2D context API, which OffscreenCanvas implements
+    canvasContext: context as unknown as CanvasRenderingContext2D,
+    viewport: page.getViewport({ scale }),
+  }).promise;
+}
@@ -0,0 +1,418 @@
+/**
+ * PPTX Service - Imports PowerPoint decks without leaving the browser
+ * Unpacks the OOXML package, draws each slide's pictures and text boxes
+ * onto a canvas and maps speaker notes into the slide script
+ */
+
+import JSZip from 'jszip';
+import { API_CONFIG } from '../config/api';
+import { PDFService } from './pdfService';
+import { parsePageRange } from '../utils/pageRange';
+import { countSpokenWords } from '../utils/speechMarkup';
+import { canvasToBlob } from '../utils/blob';
+import type { DeckImportOptions, Slide } from '../types';
+
+const REL_TYPE_SLIDE = '/relationships/slide';
+const REL_TYPE_IMAGE = '/relationships/image';
+const REL_TYPE_NOTES = '/relationships/notesSlide';
+
+// 1 point = 12700 EMU (English Metric Units, the OOXML unit of length)
+const EMU_PER_POINT = 12700;
+
+interface Relationship {
+  type: string;
+  target: string;
+}
+
+interface Frame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface TextRun {
+  text: string;
+  sizePt: number;
+  bold: boolean;
+  color: string;
+}
+
+export class PPTXService {
+  static readonly MIME_TYPE =
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+  static async extractSlides(file: File, options: DeckImportOptions = {}): Promise<Slide[]> {
+    const zip = await JSZip.loadAsync(await file.arrayBuffer());
+
+    const presentation = await this.readXml(zip, 'ppt/presentation.xml');
+    if (!presentation) {
+      throw new Error('Not a valid PowerPoint file (ppt/presentation.xml is missing)');
+    }
+
+    const slideSize = this.firstDescendant(presentation, 'sldSz');
+    const slideWidth = Number(slideSize?.getAttribute('cx')) || 9144000;
+    const slideHeight = Number(slideSize?.getAttribute('cy')) || 6858000;
+
+    const presentationRels = await this.readRelationships(zip, 'ppt/presentation.xml');
+    const sectionsBySlideId = this.readSections(presentation);
+    const slideEntries = this.descendants(presentation, 'sldId')
+      .map((sldId) => ({
+        id: sldId.getAttribute('id') || '',
+        rel: presentationRels.get(this.getRelId(sldId) || ''),
+      }))
+      .filter((entry): entry is { id: string; rel: Relationship } =>
+        !!entry.rel && entry.rel.type.endsWith(REL_TYPE_SLIDE)
+      );
+    const slidePaths = slideEntries.map((entry) => entry.rel.target);
+
+    const { signal, onProgress } = options;
+    const pages = parsePageRange(options.pageRange || '', slidePaths.length);
+    const slides: Slide[] = [];
+
+    try {
+      for (const pageNumber of pages) {
+        signal?.throwIfAborted();
+        const index = pageNumber - 1;
+        const slidePath = slidePaths[index];
+        const slideXml = await this.readXml(zip, slidePath);
+        if (!slideXml) {
+          throw new Error(`Slide ${index + 1} is missing from the PowerPoint file`);
+        }
+
+        const rels = await this.readRelationships(zip, slidePath);
+        const imageBlob = await this.renderSlide(zip, slideXml, rels, slideWidth, slideHeight);
+        const textContent = this.extractParagraphs(slideXml).join('\n');
+
+        const notesRel = [...rels.values()].find((rel) => rel.type.endsWith(REL_TYPE_NOTES));
+        const speakerNotes = notesRel ? await this.extractNotes(zip, notesRel.target) : '';
+
+        slides.push({
+          id: `slide-${index + 1}`,
+          pageNumber: index + 1,
+          imageBlob,
+          imageUrl: URL.createObjectURL(imageBlob),
+          script: speakerNotes,
+          wordCount: countSpokenWords(speakerNotes),
+          charCount: PDFService.countChars(speakerNotes),
+          textContent,
+          speakerNotes: speakerNotes || undefined,
+          section: sectionsBySlideId.get(slideEntries[index].id),
+        });
+        onProgress?.({
+          current: slides.length,
+          total: pages.length,
+          message: `Rendered slide ${pageNumber} (${slides.length} of ${pages.length})`,
+        });
+      }
+    } catch (error) {
+      for (const slide of slides) {
+        URL.revokeObjectURL(slide.imageUrl);
+      }
+      throw error;
+    }
+
+    return slides;
+  }
+
+  /**
+   * Draw the slide's pictures and text boxes at their positions on the slide
+   */
+  private static async renderSlide(
+    zip: JSZip,
+    slideXml: Document,
+    rels: Map<string, Relationship>,
+    slideWidth: number,
+    slideHeight: number
+  ): Promise<Blob> {
+    const pxPerEmu = API_CONFIG.pptx.scale / EMU_PER_POINT;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(slideWidth * pxPerEmu);
+    canvas.height = Math.round(slideHeight * pxPerEmu);
+    const context = canvas.getContext('2d');
+
+    if (!context) {
+      throw new Error('Failed to get canvas context for PowerPoint slide');
+    }
+
+    const background = this.firstDescendant(slideXml, 'bgPr');
+    context.fillStyle = this.readColor(background) || '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+
+    const shapeTree = this.firstDescendant(slideXml, 'spTree');
+    if (!shapeTree) {
+      return canvasToBlob(canvas);
+    }
+
+    let fallbackY = slideHeight * 0.25;
+
+    for (const shape of this.descendants(shapeTree, '*')) {
+      if (shape.localName === 'pic') {
+        const frame = this.readFrame(shape);
+        const embedId = this.firstDescendant(shape, 'blip')?.getAttributeNS(
+          'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+          'embed'
+        );
+        const rel = embedId ? rels.get(embedId) : undefined;
+        if (!frame || !rel || !rel.type.endsWith(REL_TYPE_IMAGE)) continue;
+
+        const image = await this.loadImage(zip, rel.target);
+        if (image) {
+          context.drawImage(
+            image,
+            frame.x * pxPerEmu,
+            frame.y * pxPerEmu,
+            frame.width * pxPerEmu,
+            frame.height * pxPerEmu
+          );
+          image.close();
+        }
+      } else if (shape.localName === 'sp') {
+        const paragraphs = this.readRuns(shape);
+        if (paragraphs.length === 0) continue;
+
+        // Placeholders without their own position inherit it from the layout;
+        // approximate by stacking titles at the top and bodies below them
+        let frame = this.readFrame(shape);
+        if (!frame) {
+          const placeholderType = this.firstDescendant(shape, 'ph')?.getAttribute('type');
+          const isTitle = placeholderType === 'title' || placeholderType === 'ctrTitle';
+          frame = {
+            x: slideWidth * 0.06,
+            y: isTitle ? slideHeight * 0.06 : fallbackY,
+            width: slideWidth * 0.88,
+            height: isTitle ? slideHeight * 0.15 : slideHeight * 0.6,
+          };
+          if (!isTitle) fallbackY += frame.height;
+        }
+
+        const fill = this.readColor(this.firstChild(shape, 'spPr'));
+        if (fill) {
+          context.fillStyle = fill;
+          context.fillRect(
+            frame.x * pxPerEmu,
+            frame.y * pxPerEmu,
+            frame.width * pxPerEmu,
+            frame.height * pxPerEmu
+          );
+        }
+
+        this.drawText(context, paragraphs, frame, pxPerEmu);
+      }
+    }
+
+    return canvasToBlob(canvas);
+  }
+
+  private static drawText(
+    context: CanvasRenderingContext2D,
+    paragraphs: TextRun[][],
+    frame: Frame,
+    pxPerEmu: number
+  ): void {
+    const left = frame.x * pxPerEmu;
+    const maxWidth = frame.width * pxPerEmu;
+    const bottom = (frame.y + frame.height) * pxPerEmu;
+    const pxPerPoint = pxPerEmu * EMU_PER_POINT;
+    let y = frame.y * pxPerEmu;
+
+    context.textBaseline = 'top';
+
+    for (const runs of paragraphs) {
+      const first = runs[0];
+      const fontSize = first.sizePt * pxPerPoint;
+      const lineHeight = fontSize * 1.2;
+
+      context.font = `${first.bold ? 'bold ' : ''}${fontSize}px sans-serif`;
+      context.fillStyle = first.color;
+
+      const words = runs.map((run) => run.text).join('').split(/\s+/).filter(Boolean);
+      let line = '';
+
+      for (const word of words) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && context.measureText(candidate).width > maxWidth) {
+          context.fillText(line, left, y);
+          y += lineHeight;
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+
+      if (line) {
+        context.fillText(line, left, y);
+        y += lineHeight;
+      }
+
+      if (y > bottom) break;
+    }
+  }
+
+  /**
+   * PowerPoint sections (p14:sectionLst) list the slide ids they contain
+   */
+  private static readSections(presentation: Document): Map<string, string> {
+    const sections = new Map<string, string>();
+
+    for (const section of this.descendants(presentation, 'section')) {
+      const name = section.getAttribute('name')?.trim();
+      if (!name) continue;
+
+      for (const sldId of this.descendants(section, 'sldId')) {
+        sections.set(sldId.getAttribute('id') || '', name);
+      }
+    }
+
+    return sections;
+  }
+
+  /**
+   * Speaker notes live in the notes slide's body placeholder
+   */
+  private static async extractNotes(zip: JSZip, notesPath: string): Promise<string> {
+    const notesXml = await this.readXml(zip, notesPath);
+    if (!notesXml) return '';
+
+    const bodies = this.descendants(notesXml, 'sp').filter(
+      (shape) => this.firstDescendant(shape, 'ph')?.getAttribute('type') === 'body'
+    );
+
+    return bodies
+      .flatMap((body) => this.extractParagraphs(body))
+      .join('\n')
+      .trim();
+  }
+
+  private static extractParagraphs(root: Document | Element): string[] {
+    return this.descendants(root, 'p')
+      .filter((p) => p.namespaceURI?.includes('drawingml'))
+      .map((p) => this.descendants(p, 't').map((t) => t.textContent || '').join('').trim())
+      .filter((text) => text.length > 0);
+  }
+
+  private static readRuns(shape: Element): TextRun[][] {
+    const body = this.firstChild(shape, 'txBody');
+    if (!body) return [];
+
+    const paragraphs: TextRun[][] = [];
+
+    for (const paragraph of this.descendants(body, 'p')) {
+      const runs = this.descendants(paragraph, 'r')
+        .map((run) => {
+          const props = this.firstChild(run, 'rPr');
+          return {
+            text: this.firstChild(run, 't')?.textContent || '',
+            sizePt: Number(props?.getAttribute('sz')) / 100 || 18,
+            bold: props?.getAttribute('b') === '1',
+            color: this.readColor(props) || '#000000',
+          };
+        })
+        .filter((run) => run.text.trim().length > 0);
+
+      if (runs.length > 0) {
+        paragraphs.push(runs);
+      }
+    }
+
+    return paragraphs;
+  }
+
+  private static readFrame(shape: Element): Frame | null {
+    const xfrm = this.firstDescendant(shape, 'xfrm');
+    const off = xfrm && this.firstChild(xfrm, 'off');
+    const ext = xfrm && this.firstChild(xfrm, 'ext');
+    if (!off || !ext) return null;
+
+    return {
+      x: Number(off.getAttribute('x')) || 0,
+      y: Number(off.getAttribute('y')) || 0,
+      width: Number(ext.getAttribute('cx')) || 0,
+      height: Number(ext.getAttribute('cy')) || 0,
+    };
+  }
+
+  private static readColor(element: Element | null | undefined): string | null {
+    if (!element) return null;
+    const solidFill = this.firstChild(element, 'solidFill');
+    const rgb = solidFill && this.firstChild(solidFill, 'srgbClr')?.getAttribute('val');
+    return rgb ? `#${rgb}` : null;
+  }
+
+  private static async loadImage(zip: JSZip, path: string): Promise<ImageBitmap | null> {
+    const entry = zip.file(path);
+    if (!entry) return null;
+
+    try {
+      return await createImageBitmap(await entry.async('blob'));
+    } catch (error) {
+      // EMF/WMF pictures cannot be decoded by the browser
+      console.warn(`[PPTXService] Skipping unsupported image ${path}:`, error);
+      return null;
+    }
+  }
+
+  private static async readXml(zip: JSZip, path: string): Promise<Document | null> {
+    const entry = zip.file(path);
+    if (!entry) return null;
+    return new DOMParser().parseFromString(await entry.async('text'), 'application/xml');
+  }
+
+  /**
+   * Read a part's _rels file and resolve targets to package paths
+   */
+  private static async readRelationships(
+    zip: JSZip,
+    partPath: string
+  ): Promise<Map<string, Relationship>> {
+    const directory = partPath.substring(0, partPath.lastIndexOf('/'));
+    const fileName = partPath.substring(partPath.lastIndexOf('/') + 1);
+    const relsXml = await this.readXml(zip, `${directory}/_rels/${fileName}.rels`);
+    const rels = new Map<string, Relationship>();
+    if (!relsXml) return rels;
+
+    for (const rel of this.descendants(relsXml, 'Relationship')) {
+      const id = rel.getAttribute('Id');
+      const target = rel.getAttribute('Target');
+      if (!id || !target || rel.getAttribute('TargetMode') === 'External') continue;
+
+      rels.set(id, {
+        type: rel.getAttribute('Type') || '',
+        target: this.resolvePath(directory, target),
+      });
+    }
+
+    return rels;
+  }
+
+  private static resolvePath(directory: string, target: string): string {
+    if (target.startsWith('/')) return target.substring(1);
+
+    const parts = directory.split('/');
+    for (const segment of target.split('/')) {
+      if (segment === '..') parts.pop();
+      else if (segment !== '.') parts.push(segment);
+    }
+    return parts.join('/');
+  }
+
+  private static getRelId(element: Element): string | null {
+    return element.getAttributeNS(
+      'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+      'id'
+    );
+  }
+
+  private static descendants(root: Document | Element, localName: string): Element[] {
+    return Array.from(root.getElementsByTagNameNS('*', localName));
+  }
+
+  private static firstDescendant(root: Document | Element, localName: string): Element | null {
+    return root.getElementsByTagNameNS('*', localName)[0] || null;
+  }
+
+  private static firstChild(element: Element, localName: string): Element | null {
+    return Array.from(element.children).find((child) => child.localName === localName) || null;
+  }
+}
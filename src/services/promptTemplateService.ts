@@ -0,0 +1,82 @@
+/**
+ * Prompt Template Service - Saved narration prompts
+ * Templates are kept in localStorage so edits survive reloads. The built-in
+ * presets are used until the user changes something.
+ */
+
+import { API_CONFIG } from '../config/api';
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  DEFAULT_PROMPT_TEMPLATES,
+  PROMPT_VARIABLE_NAMES,
+} from '../config/prompts';
+import type { PromptTemplate } from '../types';
+
+const TEMPLATES_KEY = 'deck-narrator:prompt-templates';
+const SELECTED_KEY = 'deck-narrator:prompt-template-id';
+
+export class PromptTemplateService {
+  static loadTemplates(): PromptTemplate[] {
+    try {
+      const stored = localStorage.getItem(TEMPLATES_KEY);
+      const templates: PromptTemplate[] = stored ? JSON.parse(stored) : [];
+      if (Array.isArray(templates) && templates.length > 0) {
+        return templates;
+      }
+    } catch (error) {
+      console.warn('[PromptTemplates] Could not read saved templates:', error);
+    }
+    return DEFAULT_PROMPT_TEMPLATES;
+  }
+
+  static saveTemplates(templates: PromptTemplate[]): void {
+    try {
+      localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+    } catch (error) {
+      console.warn('[PromptTemplates] Could not save templates:', error);
+    }
+  }
+
+  static resetTemplates(): PromptTemplate[] {
+    localStorage.removeItem(TEMPLATES_KEY);
+    localStorage.removeItem(SELECTED_KEY);
+    return DEFAULT_PROMPT_TEMPLATES;
+  }
+
+  static loadSelectedId(templates: PromptTemplate[]): string {
+    const id = localStorage.getItem(SELECTED_KEY);
+    return templates.some((t) => t.id === id) ? (id as string) : templates[0].id;
+  }
+
+  static saveSelectedId(id: string): void {
+    localStorage.setItem(SELECTED_KEY, id);
+  }
+
+  static createTemplate(base: PromptTemplate): PromptTemplate {
+    return {
+      ...base,
+      id: `custom-${Date.now()}`,
+      name: `${base.name} (copy)`,
+      variables: { ...base.variables },
+    };
+  }
+
+  /**
+   * Fill the template's {{variables}}; unknown placeholders are left as typed
+   */
+  static render(template: PromptTemplate = DEFAULT_PROMPT_TEMPLATE): string {
+    return PROMPT_VARIABLE_NAMES.reduce(
+      (prompt, name) => prompt.split(`{{${name}}}`).join(String(template.variables[name])),
+      template.prompt
+    );
+  }
+
+  /**
+   * Completion tokens allowed for one slide's reply: the narration at the
+   * template's length, plus the title, key points and alt text around it
+   */
+  static getScriptMaxTokens(template: PromptTemplate): number {
+    const { maxTokens, tokensPerWord, analysisMaxTokens } = API_CONFIG.llm;
+    return Math.max(maxTokens, template.variables.targetWords * tokensPerWord) + analysisMaxTokens;
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Pronunciation Service - Turns scripts into the text the voice reads
+ * Applies the project's pronunciation lexicon and reads numbers, dates and
+ * amounts as words. Delivery markup becomes SSML for voices that accept it,
+ * or plain chunks separated by pauses for those that do not. Only the TTS
+ * input changes; scripts, subtitles and transcripts keep the original
+ * spelling.
+ */
+
+import { normalizeNumbers } from '../utils/spokenNumbers';
+import { escapeXml, parseSpeechMarkup, RATE_FACTORS, spellOut } from '../utils/speechMarkup';
+import type { PronunciationEntry, PronunciationSettings, SlideProsody } from '../types';
+
+const STORAGE_KEY = 'deck-narrator:pronunciation';
+
+// Replaced terms are held as private-use characters so number reading
+// cannot touch them
+const PLACEHOLDER_BASE = 0xe100;
+const PLACEHOLDER_PATTERN = /[\ue100-\uf8ff]/g;
+
+export const DEFAULT_PRONUNCIATION: PronunciationSettings = {
+  entries: [],
+  normalizeNumbers: true,
+};
+
+// Plain text read at `rate` times the slide's speed, then `pauseAfterMs` of silence
+export interface SpeechChunk {
+  text: string;
+  rate: number;
+  pauseAfterMs: number;
+}
+
+const toPercent = (factor: number) => `${Math.round(factor * 100)}%`;
+
+export class PronunciationService {
+  /**
+   * Text to send to TTS for a script in `languageCode` ('' when unknown),
+   * with the markup removed
+   */
+  static toSpokenText(script: string, settings: PronunciationSettings, languageCode: string): string {
+    return this.toSpeechChunks(script, settings, languageCode)
+      .map((chunk) => chunk.text)
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  /**
+   * The script split wherever a pause or rate change needs a separate
+   * request, for voices without SSML. Emphasis is dropped and say-as text
+   * is spelled out.
+   */
+  static toSpeechChunks(script: string, settings: PronunciationSettings, languageCode: string): SpeechChunk[] {
+    const chunks: SpeechChunk[] = [];
+
+    for (const node of parseSpeechMarkup(script)) {
+      const last = chunks[chunks.length - 1];
+
+      if (node.type === 'pause') {
+        if (last) last.pauseAfterMs += node.ms;
+        else chunks.push({ text: '', rate: 1, pauseAfterMs: node.ms });
+        continue;
+      }
+
+      const rate = node.rate ? RATE_FACTORS[node.rate] : 1;
+      const text = node.sayAs ? spellOut(node.text) : node.text;
+      if (last && last.rate === rate && last.pauseAfterMs === 0) last.text += text;
+      else chunks.push({ text, rate, pauseAfterMs: 0 });
+    }
+
+    return chunks
+      .map((chunk) => ({ ...chunk, text: this.applyLexicon(chunk.text, settings, languageCode, false).trim() }))
+      .filter((chunk) => chunk.text || chunk.pauseAfterMs > 0);
+  }
+
+  /**
+   * The script as one SSML document. Lexicon entries with IPA become
+   * <phoneme> tags; `prosody.pitch` should be 0 for voices that cannot
+   * change pitch.
+   */
+  static toSSML(
+    script: string,
+    settings: PronunciationSettings,
+    languageCode: string,
+    prosody: SlideProsody
+  ): string {
+    const body = parseSpeechMarkup(script)
+      .map((node) => {
+        if (node.type === 'pause') return `<break time="${node.ms}ms"/>`;
+
+        let ssml = node.sayAs
+          ? `<say-as interpret-as="${node.sayAs}">${escapeXml(node.text)}</say-as>`
+          : this.applyLexicon(node.text, settings, languageCode, true);
+        // Polly's neural voices have no <emphasis>, so it is read a little louder
+        if (node.emphasis) ssml = `<prosody volume="+6dB">${ssml}</prosody>`;
+        if (node.rate) ssml = `<prosody rate="${toPercent(RATE_FACTORS[node.rate])}">${ssml}</prosody>`;
+        return ssml;
+      })
+      .join('');
+
+    const attributes = [
+      prosody.rate !== 1 ? `rate="${toPercent(prosody.rate)}"` : '',
+      prosody.pitch ? `pitch="${prosody.pitch > 0 ? '+' : ''}${Math.round(prosody.pitch)}%"` : '',
+    ].filter(Boolean);
+
+    return attributes.length > 0
+      ? `<speak><prosody ${attributes.join(' ')}>${body}</prosody></speak>`
+      : `<speak>${body}</speak>`;
+  }
+
+  static createEntry(term = ''): PronunciationEntry {
+    return {
+      id: `term-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      term,
+      spoken: '',
+      wholeWord: true,
+      matchCase: false,
+    };
+  }
+
+  /**
+   * The lexicon is kept between projects; most terms belong to the
+   * company rather than one deck
+   */
+  static load(): PronunciationSettings {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? { ...DEFAULT_PRONUNCIATION, ...JSON.parse(stored) } : DEFAULT_PRONUNCIATION;
+    } catch {
+      return DEFAULT_PRONUNCIATION;
+    }
+  }
+
+  static save(settings: PronunciationSettings): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.warn('[Pronunciation] Could not save lexicon:', error);
+    }
+  }
+
+  /**
+   * Lexicon and number reading for one run of text; as SSML the text is
+   * escaped and entries with IPA are wrapped in <phoneme>
+   */
+  private static applyLexicon(
+    text: string,
+    settings: PronunciationSettings,
+    languageCode: string,
+    ssml: boolean
+  ): string {
+    const replacements: string[] = [];
+    let result = text;
+
+    for (const entry of this.sortEntries(settings.entries)) {
+      if (!entry.term.trim() || !entry.spoken.trim()) continue;
+
+      result = result.replace(this.getPattern(entry), (match) => {
+        if (!ssml) {
+          replacements.push(entry.spoken);
+        } else if (entry.phoneme) {
+          replacements.push(`<phoneme alphabet="ipa" ph="${escapeXml(entry.phoneme)}">${escapeXml(match)}</phoneme>`);
+        } else {
+          replacements.push(escapeXml(entry.spoken));
+        }
+        return String.fromCharCode(PLACEHOLDER_BASE + replacements.length - 1);
+      });
+    }
+
+    if (settings.normalizeNumbers && (languageCode === 'en' || !languageCode)) {
+      result = normalizeNumbers(result);
+    }
+    if (ssml) result = escapeXml(result);
+
+    return result.replace(
+      PLACEHOLDER_PATTERN,
+      (placeholder) => replacements[placeholder.charCodeAt(0) - PLACEHOLDER_BASE] ?? placeholder
+    );
+  }
+
+  private static getPattern(entry: PronunciationEntry): RegExp {
+    const escaped = entry.term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // \b only knows ASCII letters, so word edges are checked with Unicode classes
+    const source = entry.wholeWord ? `(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])` : escaped;
+    return new RegExp(source, entry.matchCase ? 'gu' : 'giu');
+  }
+
+  /**
+   * Longer terms first, so "API Gateway" wins over "API"
+   */
+  private static sortEntries(entries: PronunciationEntry[]): PronunciationEntry[] {
+    return [...entries].sort((a, b) => b.term.trim().length - a.term.trim().length);
+  }
+}
@@ -3,6 +3,11 @@
  * No API key required, completely free
  */
 
+import { TTS_PREVIEW_TEXT } from '../config/ttsProviders';
+import { playAudio } from '../utils/audio';
+import type { SynthesisOptions, TTSEngine } from './ttsEngine';
+import type { TTSProvider, TTSVoice } from '../types';
+
 // Load Puter.js dynamically
 const loadPuterJS = (): Promise<any> => {
   return new Promise((resolve, reject) => {
@@ -25,7 +30,8 @@ const loadPuterJS = (): Promise<any> => {
   });
 };
 
-export class PuterTTSService {
+export class PuterTTSService implements TTSEngine {
+  readonly id: TTSProvider = 'putertts';
   private audioContext: AudioContext;
   private puter: any = null;
 
@@ -41,9 +47,14 @@ export class PuterTTSService {
 
   /**
    * Generate speech using Puter TTS and convert to AudioBuffer
-   * Includes retry logic for reliability
+   * Includes retry logic for reliability. Rate and pitch come through SSML.
    */
-  async generateSpeech(text: string, voiceId: string, retryCount = 0): Promise<AudioBuffer> {
+  async synthesize(
+    text: string,
+    voiceId: string,
+    options: SynthesisOptions = {},
+    retryCount = 0
+  ): Promise<AudioBuffer> {
     try {
       await this.ensurePuterLoaded();
 
@@ -58,7 +69,8 @@ export class PuterTTSService {
       const audio = await this.puter.ai.txt2speech(text, {
         voice: voice || 'Joanna',
         engine: engine || 'neural',
-        language: 'en-US'
+        language: PuterTTSService.getLocale(voiceId),
+        ssml: !!options.ssml
       });
 
       console.log('[PuterTTS] Audio object received:', audio);
@@ -105,7 +117,7 @@ export class PuterTTSService {
 
       // Try alternative approach: play and capture audio
       try {
-        return await this.generateSpeechViaCapture(text, voiceId);
+        return await this.generateSpeechViaCapture(text, voiceId, options);
       } catch (captureError) {
         // Retry logic with exponential backoff
         const maxRetries = 3;
@@ -114,7 +126,7 @@ export class PuterTTSService {
           console.warn(`[PuterTTS] Attempt ${retryCount + 1} failed, retrying in ${delay}ms...`);
 
           await new Promise(resolve => setTimeout(resolve, delay));
-          return this.generateSpeech(text, voiceId, retryCount + 1);
+          return this.synthesize(text, voiceId, options, retryCount + 1);
         }
 
         console.error('[PuterTTS] All retry attempts failed');
@@ -133,7 +145,11 @@ export class PuterTTSService {
   /**
    * Alternative method: Generate speech by capturing playback
    */
-  private async generateSpeechViaCapture(text: string, voiceId: string): Promise<AudioBuffer> {
+  private async generateSpeechViaCapture(
+    text: string,
+    voiceId: string,
+    options: SynthesisOptions
+  ): Promise<AudioBuffer> {
     console.log('[PuterTTS] Using capture method...');
 
     const [engine, voice] = voiceId.split(':');
@@ -141,7 +157,8 @@ export class PuterTTSService {
     const audio = await this.puter.ai.txt2speech(text, {
       voice: voice || 'Joanna',
       engine: engine || 'neural',
-      language: 'en-US'
+      language: PuterTTSService.getLocale(voiceId),
+      ssml: !!options.ssml
     });
 
     return new Promise((resolve, reject) => {
@@ -204,24 +221,22 @@ export class PuterTTSService {
   }
 
   /**
-   * Create preview audio for voice selection
+   * Play a voice sample for voice selection
    */
-  async createPreviewAudio(voiceId: string): Promise<void> {
-    const sampleText = "Hello, I'm a professional voice for your presentation narration.";
-
+  async preview(voiceId: string): Promise<void> {
     try {
       await this.ensurePuterLoaded();
 
       const [engine, voice] = voiceId.split(':');
 
-      const audio = await this.puter.ai.txt2speech(sampleText, {
+      const audio = await this.puter.ai.txt2speech(TTS_PREVIEW_TEXT, {
         voice: voice || 'Joanna',
         engine: engine || 'neural',
-        language: 'en-US'
+        language: PuterTTSService.getLocale(voiceId)
       });
 
       // Play the audio directly
-      await audio.play();
+      await playAudio(audio);
     } catch (error) {
       console.error('[PuterTTS] Preview error:', error);
       throw new Error(`Preview failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -231,37 +246,15 @@ export class PuterTTSService {
   /**
    * Get available voices from Puter TTS
    */
-  static async getAvailableVoices(): Promise<PuterTTSVoice[]> {
-    // Puter supports Amazon Polly voices
-    // https://docs.aws.amazon.com/polly/latest/dg/voicelist.html
-    return [
-      // Neural US English voices (best quality)
-      { id: 'neural:Joanna', name: 'Joanna (Neural)', locale: 'en-US', gender: 'Female', engine: 'neural' },
-      { id: 'neural:Matthew', name: 'Matthew (Neural)', locale: 'en-US', gender: 'Male', engine: 'neural' },
-      { id: 'neural:Ivy', name: 'Ivy (Neural)', locale: 'en-US', gender: 'Female', engine: 'neural' },
-      { id: 'neural:Kendra', name: 'Kendra (Neural)', locale: 'en-US', gender: 'Female', engine: 'neural' },
-      { id: 'neural:Kimberly', name: 'Kimberly (Neural)', locale: 'en-US', gender: 'Female', engine: 'neural' },
-      { id: 'neural:Salli', name: 'Salli (Neural)', locale: 'en-US', gender: 'Female', engine: 'neural' },
-      { id: 'neural:Joey', name: 'Joey (Neural)', locale: 'en-US', gender: 'Male', engine: 'neural' },
-      { id: 'neural:Justin', name: 'Justin (Neural)', locale: 'en-US', gender: 'Male', engine: 'neural' },
-      { id: 'neural:Kevin', name: 'Kevin (Neural)', locale: 'en-US', gender: 'Male', engine: 'neural' },
-
-      // Neural UK English voices
-      { id: 'neural:Amy', name: 'Amy (Neural)', locale: 'en-GB', gender: 'Female', engine: 'neural' },
-      { id: 'neural:Emma', name: 'Emma (Neural)', locale: 'en-GB', gender: 'Female', engine: 'neural' },
-      { id: 'neural:Brian', name: 'Brian (Neural)', locale: 'en-GB', gender: 'Male', engine: 'neural' },
-      { id: 'neural:Arthur', name: 'Arthur (Neural)', locale: 'en-GB', gender: 'Male', engine: 'neural' },
-
-      // Neural Australian English
-      { id: 'neural:Olivia', name: 'Olivia (Neural)', locale: 'en-AU', gender: 'Female', engine: 'neural' },
-
-      // Neural Indian English
-      { id: 'neural:Kajal', name: 'Kajal (Neural)', locale: 'en-IN', gender: 'Female', engine: 'neural' },
-
-      // Generative voices (most advanced, if available)
-      { id: 'generative:Ruth', name: 'Ruth (Generative)', locale: 'en-US', gender: 'Female', engine: 'generative' },
-      { id: 'generative:Stephen', name: 'Stephen (Generative)', locale: 'en-US', gender: 'Male', engine: 'generative' },
-    ];
+  async listVoices(): Promise<TTSVoice[]> {
+    return PUTER_VOICES;
+  }
+
+  /**
+   * Polly needs the voice's own language code, e.g. de-DE for Vicki
+   */
+  static getLocale(voiceId: string): string {
+    return PUTER_VOICES.find((v) => v.id === voiceId)?.locale || 'en-US';
   }
 
   getAudioContext(): AudioContext {
@@ -280,3 +273,49 @@ export interface PuterTTSVoice {
   gender: 'Male' | 'Female';
   engine: 'neural' | 'generative';
 }
+
+// Puter supports Amazon Polly voices
+// https://docs.aws.amazon.com/polly/latest/dg/voicelist.html
+const PUTER_VOICES: PuterTTSVoice[] = [
+  // Neural US English voices (best quality)
+  { id: 'neural:Joanna', name: 'Joanna (Neural)', locale: 'en-US', gender: 'Female', engine: 'neural' },
+  { id: 'neural:Matthew', name: 'Matthew (Neural)', locale: 'en-US', gender: 'Male', engine: 'neural' },
+  { id: 'neural:Ivy', name: 'Ivy (Neural)', locale: 'en-US', gender: 'Female', engine: 'neural' },
+  { id: 'neural:Kendra', name: 'Kendra (Neural)', locale: 'en-US', gender: 'Female', engine: 'neural' },
+  { id: 'neural:Kimberly', name: 'Kimberly (Neural)', locale: 'en-US', gender: 'Female', engine: 'neural' },
+  { id: 'neural:Salli', name: 'Salli (Neural)', locale: 'en-US', gender: 'Female', engine: 'neural' },
+  { id: 'neural:Joey', name: 'Joey (Neural)', locale: 'en-US', gender: 'Male', engine: 'neural' },
+  { id: 'neural:Justin', name: 'Justin (Neural)', locale: 'en-US', gender: 'Male', engine: 'neural' },
+  { id: 'neural:Kevin', name: 'Kevin (Neural)', locale: 'en-US', gender: 'Male', engine: 'neural' },
+
+  // Neural UK English voices
+  { id: 'neural:Amy', name: 'Amy (Neural)', locale: 'en-GB', gender: 'Female', engine: 'neural' },
+  { id: 'neural:Emma', name: 'Emma (Neural)', locale: 'en-GB', gender: 'Female', engine: 'neural' },
+  { id: 'neural:Brian', name: 'Brian (Neural)', locale: 'en-GB', gender: 'Male', engine: 'neural' },
+  { id: 'neural:Arthur', name: 'Arthur (Neural)', locale: 'en-GB', gender: 'Male', engine: 'neural' },
+
+  // Neural Australian English
+  { id: 'neural:Olivia', name: 'Olivia (Neural)', locale: 'en-AU', gender: 'Female', engine: 'neural' },
+
+  // Neural Indian English
+  { id: 'neural:Kajal', name: 'Kajal (Neural)', locale: 'en-IN', gender: 'Female', engine: 'neural' },
+
+  // Generative voices (most advanced, if available)
+  { id: 'generative:Ruth', name: 'Ruth (Generative)', locale: 'en-US', gender: 'Female', engine: 'generative' },
+  { id: 'generative:Stephen', name: 'Stephen (Generative)', locale: 'en-US', gender: 'Male', engine: 'generative' },
+
+  // Neural German voices
+  { id: 'neural:Vicki', name: 'Vicki (Neural)', locale: 'de-DE', gender: 'Female', engine: 'neural' },
+  { id: 'neural:Daniel', name: 'Daniel (Neural)', locale: 'de-DE', gender: 'Male', engine: 'neural' },
+
+  // Neural Spanish voices
+  { id: 'neural:Lucia', name: 'Lucia (Neural)', locale: 'es-ES', gender: 'Female', engine: 'neural' },
+  { id: 'neural:Sergio', name: 'Sergio (Neural)', locale: 'es-ES', gender: 'Male', engine: 'neural' },
+  { id: 'neural:Lupe', name: 'Lupe (Neural)', locale: 'es-US', gender: 'Female', engine: 'neural' },
+  { id: 'neural:Pedro', name: 'Pedro (Neural)', locale: 'es-US', gender: 'Male', engine: 'neural' },
+
+  // Neural Japanese voices
+  { id: 'neural:Kazuha', name: 'Kazuha (Neural)', locale: 'ja-JP', gender: 'Female', engine: 'neural' },
+  { id: 'neural:Tomoko', name: 'Tomoko (Neural)', locale: 'ja-JP', gender: 'Female', engine: 'neural' },
+  { id: 'neural:Takumi', name: 'Takumi (Neural)', locale: 'ja-JP', gender: 'Male', engine: 'neural' },
+];
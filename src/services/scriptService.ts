@@ -0,0 +1,309 @@
+/**
+ * Script Service - Writes narration scripts with the configured LLM
+ * Builds the prompts (template, slide text, deck context) and leaves the
+ * HTTP details to the selected provider. Each slide comes back as JSON with
+ * a title, key points and alt text alongside the narration.
+ */
+
+import {
+  ANALYSIS_FORMAT_PROMPT,
+  ANALYSIS_REPAIR_PROMPT,
+  API_CONFIG,
+  DECK_CONTEXT_PROMPT,
+  DIALOGUE_PROMPT,
+  FIT_LENGTH_PROMPT,
+  OUTLINE_PROMPT,
+  SCRIPT_ONLY_INSTRUCTION,
+  SLIDE_TEXT_PROMPT,
+  TRANSLATION_PROMPT,
+} from '../config/api';
+import { DEFAULT_PROMPT_TEMPLATE } from '../config/prompts';
+import { PromptTemplateService } from './promptTemplateService';
+import { GenerationScheduler } from './generationScheduler';
+import {
+  createAPIError,
+  createLLMProvider,
+  isAPIError,
+  type LLMProvider,
+  type MessagePart,
+} from './llmProviders';
+import { blobToDataUrl } from '../utils/blob';
+import { extractPartialNarration, parseSlideAnalysis } from '../utils/slideAnalysis';
+import { ModelCatalogService } from './modelCatalogService';
+import type {
+  LLMSettings,
+  ModelPricing,
+  PromptTemplate,
+  ScriptContext,
+  Slide,
+  SlideAnalysis,
+  TokenUsage,
+} from '../types';
+
+interface ScriptOptions {
+  context?: ScriptContext;
+  template?: PromptTemplate;
+  signal?: AbortSignal;
+  onToken?: (text: string) => void; // streams the narration so far
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+interface CompletionOptions {
+  maxTokens: number;
+  purpose: 'script' | 'outline' | 'translation' | 'rewrite';
+  signal?: AbortSignal;
+  onToken?: (text: string) => void;
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export class ScriptService {
+  private provider: LLMProvider;
+  private model: string;
+  private pricing?: ModelPricing;
+
+  constructor(settings: LLMSettings) {
+    this.provider = createLLMProvider(settings);
+    this.model = settings.model;
+    this.pricing = settings.pricing;
+  }
+
+  async generateScript(
+    slide: Slide,
+    { context, template = DEFAULT_PROMPT_TEMPLATE, signal, onToken, onUsage }: ScriptOptions = {}
+  ): Promise<SlideAnalysis> {
+    console.log(`[ScriptService] Generating script with ${this.provider.name} model:`, this.model);
+
+    if (context?.wordBudget) {
+      template = { ...template, variables: { ...template.variables, targetWords: context.wordBudget } };
+    }
+
+    // Slide images are kept as Blobs; the API needs them inline
+    const imageDataUrl = await blobToDataUrl(slide.imageBlob);
+    const maxTokens = PromptTemplateService.getScriptMaxTokens(template);
+
+    const reply = await this.createCompletion(
+      [
+        { type: 'text', text: this.buildPrompt(slide, template, context) },
+        { type: 'image', dataUrl: imageDataUrl },
+      ],
+      {
+        maxTokens,
+        purpose: 'script',
+        signal,
+        // Show only the narration field while the JSON streams in
+        onToken: onToken && ((text) => onToken(extractPartialNarration(text))),
+        onUsage,
+      }
+    );
+
+    return this.parseAnalysis(reply, maxTokens, signal, onUsage);
+  }
+
+  /**
+   * Summarize the whole deck from its slide text so each script can be
+   * written as part of one talk
+   */
+  async generateOutline(
+    slides: Slide[],
+    signal?: AbortSignal,
+    onUsage?: (usage: TokenUsage) => void
+  ): Promise<string> {
+    console.log(
+      `[ScriptService] Generating outline for ${slides.length} slides with ${this.provider.name} model:`,
+      this.model
+    );
+
+    const { outlineCharsPerSlide } = API_CONFIG.llm;
+    const slideTexts = slides.map((slide, index) => {
+      const text = (slide.textContent || slide.ocrText || slide.speakerNotes || '')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .slice(0, outlineCharsPerSlide);
+      return `Slide ${index + 1}: ${text || '(no text, image only)'}`;
+    });
+
+    return this.createCompletion(
+      [{ type: 'text', text: `${OUTLINE_PROMPT}\n\n${slideTexts.join('\n')}` }],
+      { maxTokens: API_CONFIG.llm.outlineMaxTokens, purpose: 'outline', signal, onUsage }
+    );
+  }
+
+  /**
+   * Translate an approved script into another narration language
+   */
+  async translateScript(
+    script: string,
+    language: string,
+    { signal, onToken, onUsage }: Pick<ScriptOptions, 'signal' | 'onToken' | 'onUsage'> = {}
+  ): Promise<string> {
+    console.log(`[ScriptService] Translating script into ${language} with ${this.provider.name} model:`, this.model);
+
+    const prompt = TRANSLATION_PROMPT.split('{{language}}').join(language);
+
+    return this.createCompletion([{ type: 'text', text: `${prompt}\n\nScript:\n${script}` }], {
+      maxTokens: Math.max(API_CONFIG.llm.maxTokens, script.length * API_CONFIG.llm.translationTokensPerChar),
+      purpose: 'translation',
+      signal,
+      onToken,
+      onUsage,
+    });
+  }
+
+  /**
+   * Shorten or lengthen a script to a word budget, keeping its content
+   */
+  async fitScript(
+    script: string,
+    targetWords: number,
+    { signal, onToken, onUsage }: Pick<ScriptOptions, 'signal' | 'onToken' | 'onUsage'> = {}
+  ): Promise<string> {
+    console.log(`[ScriptService] Fitting script to ${targetWords} words with ${this.provider.name} model:`, this.model);
+
+    const prompt = FIT_LENGTH_PROMPT.split('{{targetWords}}').join(String(targetWords));
+
+    return this.createCompletion([{ type: 'text', text: `${prompt}\n\nScript:\n${script}` }], {
+      maxTokens: Math.max(API_CONFIG.llm.maxTokens, targetWords * API_CONFIG.llm.tokensPerWord),
+      purpose: 'rewrite',
+      signal,
+      onToken,
+      onUsage,
+    });
+  }
+
+  /**
+   * Validate the slide JSON, asking the model to correct malformed replies
+   * (text only, the image is not sent again)
+   */
+  private async parseAnalysis(
+    reply: string,
+    maxTokens: number,
+    signal?: AbortSignal,
+    onUsage?: (usage: TokenUsage) => void
+  ): Promise<SlideAnalysis> {
+    let current = reply;
+
+    for (let attempt = 0; ; attempt++) {
+      const { analysis, errors } = parseSlideAnalysis(current);
+      if (analysis) return analysis;
+
+      console.warn(`[ScriptService] Invalid slide JSON (attempt ${attempt + 1}):`, errors);
+
+      if (attempt >= API_CONFIG.llm.repairAttempts) {
+        throw createAPIError(
+          `The model did not return valid slide JSON: ${errors.join('; ')}`,
+          { errors, reply: current },
+          undefined,
+          undefined,
+          'INVALID_ANALYSIS'
+        );
+      }
+
+      current = await this.createCompletion(
+        [
+          {
+            type: 'text',
+            text: `${ANALYSIS_REPAIR_PROMPT}\n\nProblems:\n${errors.map((e) => `- ${e}`).join('\n')}\n\nYour previous reply:\n${current}`,
+          },
+        ],
+        { maxTokens, purpose: 'script', signal, onUsage }
+      );
+    }
+  }
+
+  private async createCompletion(
+    content: MessagePart[],
+    { maxTokens, purpose, signal, onToken, onUsage }: CompletionOptions
+  ): Promise<string> {
+    try {
+      const result = await this.provider.complete({ model: this.model, content, maxTokens, signal, onToken });
+      const text = result.text.trim();
+
+      if (result.usage) {
+        const imageCount = content.filter((part) => part.type === 'image').length;
+        onUsage?.(ModelCatalogService.priceUsage(result.usage, this.pricing, imageCount));
+      }
+
+      if (!text) {
+        console.error(`[ScriptService] ${this.provider.name} returned empty content`);
+        throw createAPIError(`Generated ${purpose} is empty`);
+      }
+
+      return text;
+    } catch (error) {
+      // Pass aborts, network failures and API errors through so callers can retry them
+      if (
+        GenerationScheduler.isAbortError(error) ||
+        error instanceof TypeError ||
+        isAPIError(error)
+      ) {
+        throw error;
+      }
+      throw createAPIError(`Failed to generate ${purpose}`, error);
+    }
+  }
+
+  /**
+   * Append the slide's text layer, links, comments, deck context and
+   * per-slide instructions to the template's prompt, then the reply format
+   */
+  private buildPrompt(slide: Slide, template: PromptTemplate, context?: ScriptContext): string {
+    const sections: string[] = [];
+
+    if (slide.textContent) {
+      sections.push(`Slide text:\n${slide.textContent}`);
+    } else if (slide.ocrText) {
+      sections.push(`Slide text (recognized by OCR, may contain errors):\n${slide.ocrText}`);
+    }
+
+    const links = (slide.links || [])
+      .map((link) => link.url || (link.targetPage ? `page ${link.targetPage}` : ''))
+      .filter(Boolean);
+    if (links.length > 0) {
+      sections.push(`Links on this slide:\n${links.map((link) => `- ${link}`).join('\n')}`);
+    }
+
+    const notes = (slide.annotations || []).map((note) =>
+      note.author ? `- ${note.author}: ${note.text}` : `- ${note.text}`
+    );
+    if (notes.length > 0) {
+      sections.push(`Presenter comments on this slide:\n${notes.join('\n')}`);
+    }
+
+    // The reply format comes last, from ANALYSIS_FORMAT_PROMPT
+    const parts = [PromptTemplateService.render(template).replace(SCRIPT_ONLY_INSTRUCTION, '').trim()];
+
+    if (sections.length > 0) {
+      const slideText = sections.join('\n\n').slice(0, API_CONFIG.llm.maxContextChars);
+      parts.push(`${SLIDE_TEXT_PROMPT}\n\n${slideText}`);
+    }
+
+    if (context?.wordBudget) {
+      parts.push(
+        `Aim for about ${context.wordBudget} words so the whole video fits its target length.`
+      );
+    }
+
+    if (context?.dialogue) {
+      parts.push(DIALOGUE_PROMPT);
+    }
+
+    if (context && context.totalSlides > 1) {
+      const deckContext = [`This is slide ${context.position} of ${context.totalSlides}.`];
+      if (context.outline) {
+        deckContext.push(`Presentation outline:\n${context.outline}`);
+      }
+      if (context.previousScript) {
+        deckContext.push(`Previous slide's narration:\n${context.previousScript}`);
+      }
+      parts.push(`${DECK_CONTEXT_PROMPT}\n\n${deckContext.join('\n\n')}`);
+    }
+
+    if (slide.instructions?.trim()) {
+      parts.push(`Additional instructions for this slide:\n${slide.instructions.trim()}`);
+    }
+
+    parts.push(PromptTemplateService.render({ ...template, prompt: ANALYSIS_FORMAT_PROMPT }));
+
+    return parts.join('\n\n');
+  }
+}
@@ -0,0 +1,67 @@
+import type { Slide } from '../types';
+import { ChapterService } from './chapterService';
+import { stripSpeechMarkup } from '../utils/speechMarkup';
+
+/**
+ * Transcript Service - Text exports of the narrated video
+ * Uses the slide titles, key points and alt text written alongside each
+ * script, timed to the compiled video like the chapters. Delivery markup
+ * is left out.
+ */
+export class TranscriptService {
+  /**
+   * Full transcript with slide titles, descriptions and key points
+   */
+  static toMarkdown(slides: Slide[]): string {
+    const sections = ChapterService.getTimeline(slides).map(({ slide, startTime }) => {
+      const lines = [`## ${ChapterService.formatTimestamp(startTime)} ${this.getTitle(slide)}`];
+
+      if (slide.altText) {
+        lines.push(`*Slide description:* ${slide.altText}`);
+      }
+      if (slide.keyPoints && slide.keyPoints.length > 0) {
+        lines.push(slide.keyPoints.map((point) => `- ${point}`).join('\n'));
+      }
+      lines.push(stripSpeechMarkup(slide.script));
+
+      return lines.join('\n\n');
+    });
+
+    return `# Transcript\n\n${sections.join('\n\n')}\n`;
+  }
+
+  /**
+   * Narration only, one timestamped paragraph per slide
+   */
+  static toText(slides: Slide[]): string {
+    return ChapterService.getTimeline(slides)
+      .map(
+        ({ slide, startTime }) =>
+          `[${ChapterService.formatTimestamp(startTime)}] ${this.getTitle(slide)}\n${stripSpeechMarkup(slide.script)}`
+      )
+      .join('\n\n');
+  }
+
+  /**
+   * WebVTT descriptions track from the alt text, usable as
+   * <track kind="descriptions"> for screen readers
+   */
+  static toDescriptionsVTT(slides: Slide[]): string {
+    const cues = ChapterService.getTimeline(slides)
+      .filter(({ slide }) => slide.altText)
+      .map(
+        ({ slide, startTime, endTime }, index) =>
+          `${index + 1}\n${ChapterService.formatVTTTime(startTime)} --> ${ChapterService.formatVTTTime(endTime)}\n${slide.altText}`
+      );
+
+    return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+  }
+
+  static hasDescriptions(slides: Slide[]): boolean {
+    return ChapterService.getTimeline(slides).some(({ slide }) => slide.altText);
+  }
+
+  private static getTitle(slide: Slide): string {
+    return slide.title || `Slide ${slide.pageNumber}`;
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * TTS Engines - One interface over every text-to-speech provider
+ * Each engine turns text into an AudioBuffer for the video, plays a voice
+ * sample and lists its voices. What a provider can do (SSML, word timings,
+ * rate limits) is described in config/ttsProviders.
+ */
+
+import { TTSService } from './ttsService';
+import { PuterTTSService } from './puterTTSService';
+import { EdgeTTSService } from './edgeTTSService';
+import { WebSpeechService } from './webSpeechService';
+import { PronunciationService } from './pronunciationService';
+import { DEFAULT_PROSODY, DIALOGUE_TURN_GAP_MS, getTTSProvider } from '../config/ttsProviders';
+import { concatAudioBuffers } from '../utils/audio';
+import { DIALOGUE_SPEAKERS, parseDialogue } from '../utils/dialogue';
+import type { PronunciationSettings, SlideProsody, TTSProvider, TTSVoice } from '../types';
+
+export interface SynthesisOptions {
+  ssml?: boolean; // `text` is an SSML document
+  rate?: number; // 1 is normal speed
+  pitch?: number; // percent above or below normal
+}
+
+export interface TTSEngine {
+  readonly id: TTSProvider;
+  synthesize(text: string, voiceId: string, options?: SynthesisOptions): Promise<AudioBuffer>;
+  preview(voiceId: string): Promise<void>; // resolves once the sample has played
+  listVoices(): Promise<TTSVoice[]>;
+  cleanup(): void;
+}
+
+export function createTTSEngine(provider: TTSProvider, apiKeys: { lemonfox: string }): TTSEngine {
+  switch (provider) {
+    case 'lemonfox':
+      return new TTSService(apiKeys.lemonfox);
+    case 'edge':
+      return new EdgeTTSService();
+    case 'webspeech':
+      return new WebSpeechService();
+    case 'putertts':
+    default:
+      return new PuterTTSService();
+  }
+}
+
+interface ScriptSynthesisOptions {
+  pronunciation: PronunciationSettings;
+  languageCode: string;
+  prosody?: SlideProsody;
+}
+
+/**
+ * Speak a narration script with its markup: as SSML where the engine
+ * accepts it, otherwise chunk by chunk with silence for the pauses
+ */
+export async function synthesizeScript(
+  engine: TTSEngine,
+  script: string,
+  voiceId: string,
+  { pronunciation, languageCode, prosody = DEFAULT_PROSODY }: ScriptSynthesisOptions
+): Promise<AudioBuffer> {
+  const { capabilities } = getTTSProvider(engine.id);
+  const pitch = capabilities.pitch ? prosody.pitch : 0;
+
+  if (capabilities.ssml) {
+    const ssml = PronunciationService.toSSML(script, pronunciation, languageCode, { ...prosody, pitch });
+    return engine.synthesize(ssml, voiceId, { ssml: true });
+  }
+
+  const parts: (AudioBuffer | number)[] = [];
+  for (const chunk of PronunciationService.toSpeechChunks(script, pronunciation, languageCode)) {
+    if (chunk.text) {
+      if (parts.length > 0 && capabilities.requestDelayMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, capabilities.requestDelayMs));
+      }
+      parts.push(await engine.synthesize(chunk.text, voiceId, { rate: prosody.rate * chunk.rate, pitch }));
+    }
+    if (chunk.pauseAfterMs > 0) parts.push(chunk.pauseAfterMs / 1000);
+  }
+
+  if (!parts.some((part) => typeof part !== 'number')) {
+    throw new Error('The script has nothing to read aloud');
+  }
+  return concatAudioBuffers(parts);
+}
+
+/**
+ * Speak a script turn by turn, each with its speaker's voice from
+ * `getVoice` (null for text before the first label), with a short gap
+ * between turns
+ */
+export async function synthesizeDialogue(
+  engine: TTSEngine,
+  script: string,
+  getVoice: (speaker: string | null) => string,
+  options: ScriptSynthesisOptions
+): Promise<AudioBuffer> {
+  const turns = parseDialogue(script, DIALOGUE_SPEAKERS);
+  if (turns.length <= 1) {
+    return synthesizeScript(engine, turns[0]?.text ?? script, getVoice(turns[0]?.speaker ?? null), options);
+  }
+
+  const { requestDelayMs } = getTTSProvider(engine.id).capabilities;
+  const parts: (AudioBuffer | number)[] = [];
+  for (const [index, turn] of turns.entries()) {
+    if (index > 0) {
+      if (requestDelayMs > 0) await new Promise((resolve) => setTimeout(resolve, requestDelayMs));
+      parts.push(DIALOGUE_TURN_GAP_MS / 1000);
+    }
+    parts.push(await synthesizeScript(engine, turn.text, getVoice(turn.speaker), options));
+  }
+
+  return concatAudioBuffers(parts);
+}
@@ -1,7 +1,12 @@
 import { API_CONFIG } from '../config/api';
-import type { APIError } from '../types';
-
-export class TTSService {
+import { VOICE_PROFILES } from '../config/voices';
+import { TTS_PREVIEW_TEXT } from '../config/ttsProviders';
+import { encodeWav, playAudioBlob } from '../utils/audio';
+import type { SynthesisOptions, TTSEngine } from './ttsEngine';
+import type { APIError, TTSProvider, TTSVoice } from '../types';
+
+export class TTSService implements TTSEngine {
+  readonly id: TTSProvider = 'lemonfox';
   private apiKey: string;
   private audioContext: AudioContext;
 
@@ -10,7 +15,7 @@ export class TTSService {
     this.audioContext = new AudioContext();
   }
 
-  async generateSpeech(text: string, voiceId: string): Promise<AudioBuffer> {
+  async synthesize(text: string, voiceId: string, { rate = 1 }: SynthesisOptions = {}): Promise<AudioBuffer> {
     try {
       const response = await fetch(API_CONFIG.lemonfox.baseUrl, {
         method: 'POST',
@@ -22,6 +27,9 @@ export class TTSService {
           model: API_CONFIG.lemonfox.model,
           input: text,
           voice: voiceId,
+          // English is the default; other voices need their language set
+          language: VOICE_PROFILES.find((v) => v.id === voiceId)?.language,
+          speed: rate,
         }),
       });
 
@@ -45,76 +53,32 @@ export class TTSService {
     }
   }
 
-  async createPreviewAudio(voiceId: string): Promise<string> {
-    const sampleText = "Hello, I'm a professional voice for your presentation narration.";
-    const audioBuffer = await this.generateSpeech(sampleText, voiceId);
-    return this.audioBufferToDataUrl(audioBuffer);
-  }
-
-  private audioBufferToDataUrl(audioBuffer: AudioBuffer): string {
-    // Convert AudioBuffer to WAV data URL for preview
-    const wav = this.audioBufferToWav(audioBuffer);
-    const blob = new Blob([wav], { type: 'audio/wav' });
-    return URL.createObjectURL(blob);
-  }
-
-  private audioBufferToWav(audioBuffer: AudioBuffer): ArrayBuffer {
-    const numChannels = audioBuffer.numberOfChannels;
-    const sampleRate = audioBuffer.sampleRate;
-    const format = 1; // PCM
-    const bitDepth = 16;
-
-    const bytesPerSample = bitDepth / 8;
-    const blockAlign = numChannels * bytesPerSample;
-
-    const data = new Float32Array(audioBuffer.length * numChannels);
-    for (let channel = 0; channel < numChannels; channel++) {
-      const channelData = audioBuffer.getChannelData(channel);
-      for (let i = 0; i < audioBuffer.length; i++) {
-        data[i * numChannels + channel] = channelData[i];
-      }
-    }
-
-    const dataLength = data.length * bytesPerSample;
-    const buffer = new ArrayBuffer(44 + dataLength);
-    const view = new DataView(buffer);
-
-    const writeString = (offset: number, string: string) => {
-      for (let i = 0; i < string.length; i++) {
-        view.setUint8(offset + i, string.charCodeAt(i));
-      }
-    };
-
-    // WAV header
-    writeString(0, 'RIFF');
-    view.setUint32(4, 36 + dataLength, true);
-    writeString(8, 'WAVE');
-    writeString(12, 'fmt ');
-    view.setUint32(16, 16, true);
-    view.setUint16(20, format, true);
-    view.setUint16(22, numChannels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, sampleRate * blockAlign, true);
-    view.setUint16(32, blockAlign, true);
-    view.setUint16(34, bitDepth, true);
-    writeString(36, 'data');
-    view.setUint32(40, dataLength, true);
-
-    // Write audio data
-    let offset = 44;
-    for (let i = 0; i < data.length; i++) {
-      const sample = Math.max(-1, Math.min(1, data[i]));
-      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
-      offset += 2;
+  async preview(voiceId: string): Promise<void> {
+    if (!this.apiKey) {
+      throw new Error('Please enter your Lemonfox API key first');
     }
+    const audioBuffer = await this.synthesize(TTS_PREVIEW_TEXT, voiceId);
+    await playAudioBlob(new Blob([encodeWav(audioBuffer)], { type: 'audio/wav' }));
+  }
 
-    return buffer;
+  async listVoices(): Promise<TTSVoice[]> {
+    return VOICE_PROFILES.map(({ id, name, locale, gender, description }) => ({
+      id,
+      name,
+      locale,
+      gender,
+      description,
+    }));
   }
 
   getAudioContext(): AudioContext {
     return this.audioContext;
   }
 
+  cleanup(): void {
+    this.audioContext.close();
+  }
+
   private createError(message: string, details?: unknown): APIError {
     return {
       message,
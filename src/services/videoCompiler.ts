@@ -33,7 +33,7 @@ export class VideoCompiler {
   async compile(slides: Slide[]): Promise<Blob> {
     try {
       // Set canvas dimensions from first slide
-      const firstImage = await this.loadImage(slides[0].imageDataUrl);
+      const firstImage = await this.loadImage(slides[0].imageUrl);
       this.canvas.width = firstImage.width;
       this.canvas.height = firstImage.height;
 
@@ -171,13 +171,17 @@ export class VideoCompiler {
 
     console.log(`[VideoCompiler] Starting rendering of ${slides.length} slides at ${fps} fps`);
 
-    // Pre-load all images and calculate timings
-    const slideData: { image: HTMLImageElement; frames: number }[] = [];
+    // Pre-load all images and calculate timings. Merged animation builds
+    // show each step for an equal share of the slide's duration.
+    const slideData: { images: HTMLImageElement[]; frames: number }[] = [];
     for (const slide of slides) {
-      const image = await this.loadImage(slide.imageDataUrl);
+      const images: HTMLImageElement[] = [];
+      for (const url of slide.buildStepUrls || [slide.imageUrl]) {
+        images.push(await this.loadImage(url));
+      }
       const slideDuration = (slide.audioBuffer?.duration || 0) + paddingSeconds;
       const slideFrames = Math.ceil(slideDuration * fps);
-      slideData.push({ image, frames: slideFrames });
+      slideData.push({ images, frames: slideFrames });
       console.log(`[VideoCompiler] Slide loaded: duration=${slideDuration.toFixed(2)}s, frames=${slideFrames}`);
     }
 
@@ -214,10 +218,14 @@ export class VideoCompiler {
         });
       }
 
-      // Draw current slide
+      // Draw current slide (or the current step of its build)
       const currentSlide = slideData[currentSlideIndex];
+      const stepIndex = Math.min(
+        Math.floor((frameInCurrentSlide / currentSlide.frames) * currentSlide.images.length),
+        currentSlide.images.length - 1
+      );
       this.ctx.drawImage(
-        currentSlide.image,
+        currentSlide.images[stepIndex],
         0, 0,
         this.canvas.width,
         this.canvas.height
@@ -246,12 +254,12 @@ export class VideoCompiler {
     console.log(`[VideoCompiler] Rendering complete: ${totalFrames} frames in ${elapsed.toFixed(2)}s (expected: ${(totalFrames / fps).toFixed(2)}s)`);
   }
 
-  private loadImage(dataUrl: string): Promise<HTMLImageElement> {
+  private loadImage(url: string): Promise<HTMLImageElement> {
     return new Promise((resolve, reject) => {
       const img = new Image();
       img.onload = () => resolve(img);
       img.onerror = () => reject(new Error('Failed to load image'));
-      img.src = dataUrl;
+      img.src = url;
     });
   }
 
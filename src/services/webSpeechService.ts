@@ -3,7 +3,12 @@
  * No API key required, works offline
  */
 
-export class WebSpeechService {
+import { TTS_PREVIEW_TEXT } from '../config/ttsProviders';
+import type { SynthesisOptions, TTSEngine } from './ttsEngine';
+import type { TTSProvider, TTSVoice } from '../types';
+
+export class WebSpeechService implements TTSEngine {
+  readonly id: TTSProvider = 'webspeech';
   private audioContext: AudioContext;
 
   constructor() {
@@ -24,10 +29,25 @@ export class WebSpeechService {
     return window.speechSynthesis.getVoices();
   }
 
+  /**
+   * Browser voices, once the browser has loaded them
+   */
+  async listVoices(): Promise<TTSVoice[]> {
+    if (!WebSpeechService.isSupported()) return [];
+
+    await this.waitForVoices();
+    return WebSpeechService.getAvailableVoices().map((voice) => ({
+      id: voice.voiceURI || voice.name,
+      name: voice.name,
+      locale: voice.lang,
+      description: voice.localService ? 'Local' : 'Remote',
+    }));
+  }
+
   /**
    * Generate speech using Web Speech API and convert to AudioBuffer
    */
-  async generateSpeech(text: string, voiceId: string): Promise<AudioBuffer> {
+  async synthesize(text: string, voiceId: string, { rate = 1, pitch = 0 }: SynthesisOptions = {}): Promise<AudioBuffer> {
     if (!WebSpeechService.isSupported()) {
       throw new Error('Web Speech API is not supported in this browser');
     }
@@ -46,9 +66,9 @@ export class WebSpeechService {
         utterance.voice = selectedVoice;
       }
 
-      // Configure utterance
-      utterance.rate = 1.0;
-      utterance.pitch = 1.0;
+      // Configure utterance; pitch runs from 0 to 2 with 1 as normal
+      utterance.rate = rate;
+      utterance.pitch = Math.min(2, Math.max(0, 1 + pitch / 100));
       utterance.volume = 1.0;
 
       // Record audio using MediaRecorder
@@ -93,13 +113,11 @@ export class WebSpeechService {
   }
 
   /**
-   * Create preview audio for voice selection
+   * Play a voice sample for voice selection
    */
-  async createPreviewAudio(voiceId: string): Promise<string> {
-    const sampleText = "Hello, I'm a professional voice for your presentation narration.";
-
+  async preview(voiceId: string): Promise<void> {
     return new Promise((resolve, reject) => {
-      const utterance = new SpeechSynthesisUtterance(sampleText);
+      const utterance = new SpeechSynthesisUtterance(TTS_PREVIEW_TEXT);
 
       const voices = window.speechSynthesis.getVoices();
       const selectedVoice = voices.find(v => v.voiceURI === voiceId || v.name === voiceId);
@@ -113,7 +131,7 @@ export class WebSpeechService {
       utterance.volume = 1.0;
 
       utterance.onend = () => {
-        resolve('preview-complete');
+        resolve();
       };
 
       utterance.onerror = (event) => {
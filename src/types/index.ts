@@ -1,25 +1,235 @@
 export interface Slide {
   id: string;
   pageNumber: number;
-  imageDataUrl: string;
+  imageBlob: Blob;
+  imageUrl: string;
   script: string;
   wordCount: number;
   charCount: number;
   audioBuffer?: AudioBuffer;
   audioDuration?: number;
+  textContent?: string;
+  ocrText?: string;
+  links?: SlideLink[];
+  annotations?: SlideAnnotation[];
+  speakerNotes?: string;
+  excluded?: boolean;
+  section?: string;
+  instructions?: string;
+  mergedInto?: string;
+  buildStepUrls?: string[];
+  title?: string;
+  keyPoints?: string[];
+  altText?: string; // screen-reader description of the slide
+  translations?: Record<string, SlideTranslation>; // by language code
+  prosody?: SlideProsody;
+  voiceId?: string; // replaces the project voice for this slide's source-language narration
 }
 
-export type TTSProvider = 'lemonfox' | 'webspeech' | 'putertts';
+// How the voice delivers a slide; markup in the script adjusts it further
+export interface SlideProsody {
+  rate: number; // 1 is the voice's normal speed
+  pitch: number; // percent above or below the voice's normal pitch
+}
+
+export interface SlideTranslation {
+  script: string;
+  sourceScript: string; // the script it was translated from, to spot later edits
+}
+
+// Included slides whose translation into a language still needs work
+export interface TranslationStatus {
+  missing: number;
+  stale: number; // translated from a script that was edited since
+}
+
+/**
+ * Additional narration language and the voice that reads it
+ */
+export interface TargetLanguage {
+  code: string;
+  voiceId: string;
+}
+
+/**
+ * One rendered video; slides carry that language's script and timings
+ */
+export interface LocalizedVideo {
+  language: string; // language code, empty when the source language is not a known one
+  languageName: string;
+  blob: Blob;
+  slides: Slide[];
+}
+
+/**
+ * Structured result the LLM returns for a slide
+ */
+export interface SlideAnalysis {
+  title: string;
+  keyPoints: string[];
+  altText: string;
+  narration: string;
+}
+
+export interface PromptVariables {
+  audience: string;
+  tone: string;
+  targetWords: number;
+  language: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  prompt: string; // may reference {{audience}}, {{tone}}, {{targetWords}} and {{language}}
+  variables: PromptVariables;
+}
+
+export interface ScriptContext {
+  outline?: string;
+  previousScript?: string;
+  position: number; // 1-based among narrated slides
+  totalSlides: number;
+  wordBudget?: number; // replaces the template's length when a target duration is set
+  dialogue?: boolean; // write the script as a HOST/GUEST conversation
+}
+
+export interface SpeechRate {
+  wordsPerSecond: number;
+  calibrated: boolean; // false while using the default rate
+}
+
+// Replaces `term` in the text sent to TTS; the script itself is unchanged
+export interface PronunciationEntry {
+  id: string;
+  term: string;
+  spoken: string; // respelling the voice reads instead
+  phoneme?: string; // IPA, for voices that accept phoneme markup
+  wholeWord: boolean;
+  matchCase: boolean;
+}
+
+export interface PronunciationSettings {
+  entries: PronunciationEntry[];
+  normalizeNumbers: boolean; // read numbers, dates and amounts as words (English)
+}
+
+export interface BuildGroup {
+  id: string;
+  slideIds: string[]; // deck order; the last page shows the complete build
+  status: 'proposed' | 'accepted' | 'rejected';
+  showSteps: boolean;
+}
+
+export interface DeckSection {
+  title: string;
+  pageNumber: number;
+}
+
+export interface Chapter {
+  title: string;
+  startTime: number; // seconds
+  slideId: string;
+}
+
+export interface SlideLink {
+  url?: string;
+  targetPage?: number;
+}
+
+export interface SlideAnnotation {
+  subtype: string;
+  author?: string;
+  text: string;
+}
+
+export interface DeckImportOptions {
+  pageRange?: string;
+  password?: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: ImportProgress) => void;
+}
+
+export interface ImportProgress {
+  current: number;
+  total: number;
+  message: string;
+}
+
+export type LLMProviderId = 'openrouter' | 'openai-compatible' | 'openai' | 'anthropic';
+
+export interface LLMSettings {
+  provider: LLMProviderId;
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+  pricing?: ModelPricing; // known for OpenRouter catalogue models
+}
+
+// USD per token (per image for `image`)
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
+  image: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cost?: number; // USD, when the provider reports it or pricing is known
+}
+
+export interface CostEstimate extends TokenUsage {
+  requests: number;
+}
+
+export type TTSProvider = 'lemonfox' | 'webspeech' | 'putertts' | 'edge';
+
+// A voice as listed by any TTS provider
+export interface TTSVoice {
+  id: string;
+  name: string;
+  locale: string; // en-US, de-DE, ...
+  gender?: 'Male' | 'Female';
+  description?: string;
+}
+
+export interface AudioCacheStats {
+  clips: number;
+  bytes: number;
+}
+
+export interface TTSCapabilities {
+  ssml: boolean; // accepts SSML markup
+  pitch: boolean; // can raise or lower the voice
+  wordTimings: boolean; // reports when each word is spoken
+  videoGeneration: boolean; // false when audio can be played but not captured
+  requiresApiKey: boolean;
+  requestDelayMs: number; // pause between clips to stay under rate limits
+}
+
+// Two-narrator scripts: lines starting with a speaker label, e.g. "HOST:",
+// are read with that speaker's voice
+export interface DialogueSettings {
+  enabled: boolean; // new scripts are written as dialogue
+  voices: Record<string, string>; // by speaker label; empty uses the slide's voice
+}
 
 export interface ProjectState {
-  pdfFile: File | null;
+  deckFiles: File[];
   selectedVoiceId: string;
+  targetLanguages: TargetLanguage[];
   ttsProvider: TTSProvider;
-  selectedModel: string;
+  llm: LLMSettings;
   slides: Slide[];
-  finalVideoBlob: Blob | null;
+  buildGroups: BuildGroup[];
+  outline: string;
+  promptTemplate: PromptTemplate;
+  targetDuration: number | null; // seconds
+  pronunciation: PronunciationSettings;
+  dialogue: DialogueSettings;
+  videos: LocalizedVideo[];
   apiKeys: {
-    openRouter: string;
     lemonfox: string;
   };
 }
@@ -38,4 +248,12 @@ export interface APIError {
   message: string;
   code?: string;
   details?: unknown;
+  status?: number;
+  retryAfter?: number; // ms, from the Retry-After header
+}
+
+export interface BatchProgress {
+  completed: number;
+  failed: number;
+  total: number;
 }
@@ -0,0 +1,131 @@
+/**
+ * Play an audio element and resolve once it has finished
+ */
+export function playAudio(audio: HTMLAudioElement): Promise<void> {
+  return new Promise((resolve, reject) => {
+    audio.onended = () => resolve();
+    audio.onerror = () => reject(new Error('Audio playback failed'));
+    audio.play().catch(reject);
+  });
+}
+
+/**
+ * Play audio data, releasing its object URL afterwards
+ */
+export async function playAudioBlob(blob: Blob): Promise<void> {
+  const url = URL.createObjectURL(blob);
+  try {
+    await playAudio(new Audio(url));
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Join clips into one buffer; numbers are seconds of silence. Clips are
+ * expected to share a sample rate, as clips from one engine do.
+ */
+export function concatAudioBuffers(parts: (AudioBuffer | number)[]): AudioBuffer {
+  const clips = parts.filter((part): part is AudioBuffer => typeof part !== 'number');
+  if (clips.length === 1 && parts.length === 1) return clips[0];
+
+  const sampleRate = clips[0]?.sampleRate || 44100;
+  const numberOfChannels = Math.max(1, ...clips.map((clip) => clip.numberOfChannels));
+  const lengths = parts.map((part) => (typeof part === 'number' ? Math.round(part * sampleRate) : part.length));
+  const result = new AudioBuffer({
+    length: Math.max(1, lengths.reduce((sum, length) => sum + length, 0)),
+    numberOfChannels,
+    sampleRate,
+  });
+
+  let offset = 0;
+  parts.forEach((part, index) => {
+    if (typeof part !== 'number') {
+      for (let channel = 0; channel < numberOfChannels; channel++) {
+        // Mono clips fill every channel
+        result.copyToChannel(part.getChannelData(Math.min(channel, part.numberOfChannels - 1)), channel, offset);
+      }
+    }
+    offset += lengths[index];
+  });
+
+  return result;
+}
+
+/**
+ * 16-bit PCM WAV of the buffer
+ */
+export function encodeWav(audioBuffer: AudioBuffer): ArrayBuffer {
+  const numChannels = audioBuffer.numberOfChannels;
+  const sampleRate = audioBuffer.sampleRate;
+  const format = 1; // PCM
+  const bitDepth = 16;
+
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numChannels * bytesPerSample;
+
+  const data = new Float32Array(audioBuffer.length * numChannels);
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = audioBuffer.getChannelData(channel);
+    for (let i = 0; i < audioBuffer.length; i++) {
+      data[i * numChannels + channel] = channelData[i];
+    }
+  }
+
+  const dataLength = data.length * bytesPerSample;
+  const buffer = new ArrayBuffer(44 + dataLength);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, string: string) => {
+    for (let i = 0; i < string.length; i++) {
+      view.setUint8(offset + i, string.charCodeAt(i));
+    }
+  };
+
+  // WAV header
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, format, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  // Write audio data
+  let offset = 44;
+  for (let i = 0; i < data.length; i++) {
+    const sample = Math.max(-1, Math.min(1, data[i]));
+    view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+    offset += 2;
+  }
+
+  return buffer;
+}
+
+/**
+ * Read a WAV written by encodeWav back into an AudioBuffer
+ */
+export function decodeWav(wav: ArrayBuffer): AudioBuffer {
+  const view = new DataView(wav);
+  const numberOfChannels = view.getUint16(22, true);
+  const sampleRate = view.getUint32(24, true);
+  const length = view.getUint32(40, true) / 2 / numberOfChannels;
+  const audioBuffer = new AudioBuffer({ length: Math.max(1, length), numberOfChannels, sampleRate });
+
+  for (let channel = 0; channel < numberOfChannels; channel++) {
+    const channelData = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      const sample = view.getInt16(44 + (i * numberOfChannels + channel) * 2, true);
+      channelData[i] = sample < 0 ? sample / 0x8000 : sample / 0x7fff;
+    }
+    audioBuffer.copyToChannel(channelData, channel);
+  }
+
+  return audioBuffer;
+}
@@ -0,0 +1,49 @@
+/**
+ * Speaker turns in dialogue scripts, e.g.
+ *   HOST: Welcome back.
+ *   GUEST: Thanks for having me.
+ * A turn runs until the next labelled line; text before the first label
+ * has no speaker.
+ */
+
+// Speaker labels recognized at the start of a line in dialogue scripts
+export const DIALOGUE_SPEAKERS = ['HOST', 'GUEST'];
+
+export interface DialogueTurn {
+  speaker: string | null; // upper-case label
+  text: string;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// "HOST:" at the start of a line, in any case
+const getLabelPattern = (speakers: string[]) =>
+  new RegExp(`^[ \\t]*(${speakers.map(escapeRegExp).join('|')})[ \\t]*:[ \\t]*`, 'gim');
+
+export function parseDialogue(script: string, speakers: string[]): DialogueTurn[] {
+  if (speakers.length === 0) return [{ speaker: null, text: script.trim() }];
+
+  const turns: DialogueTurn[] = [];
+  let speaker: string | null = null;
+  let lastIndex = 0;
+
+  for (const match of script.matchAll(getLabelPattern(speakers))) {
+    turns.push({ speaker, text: script.slice(lastIndex, match.index).trim() });
+    speaker = match[1].toUpperCase();
+    lastIndex = match.index + match[0].length;
+  }
+  turns.push({ speaker, text: script.slice(lastIndex).trim() });
+
+  return turns.filter((turn) => turn.text);
+}
+
+export function hasDialogue(script: string, speakers: string[]): boolean {
+  return parseDialogue(script, speakers).some((turn) => turn.speaker);
+}
+
+/**
+ * The script without its speaker labels, for word counts
+ */
+export function stripSpeakerLabels(script: string, speakers: string[]): string {
+  return speakers.length > 0 ? script.replace(getLabelPattern(speakers), '') : script;
+}
@@ -0,0 +1,56 @@
+/**
+ * Parse a page selection such as "3-18, 22" into sorted page numbers.
+ * An empty selection means every page.
+ */
+export function parsePageRange(spec: string, totalPages: number): number[] {
+  if (!spec.trim()) {
+    return Array.from({ length: totalPages }, (_, i) => i + 1);
+  }
+
+  const pages = new Set<number>();
+
+  for (const part of spec.split(',')) {
+    const token = part.trim();
+    if (!token) continue;
+
+    const match = token.match(/^(\d+)\s*(?:-\s*(\d*))?$/);
+    if (!match) {
+      throw new Error(`Invalid page range "${token}" (use e.g. "3-18, 22")`);
+    }
+
+    const start = Number(match[1]);
+    // "5-" runs to the last page
+    const end = match[2] === undefined ? start : match[2] === '' ? totalPages : Number(match[2]);
+
+    if (start < 1 || end < start) {
+      throw new Error(`Invalid page range "${token}"`);
+    }
+    if (end > totalPages) {
+      throw new Error(`Page ${end} is out of range (the deck has ${totalPages} pages)`);
+    }
+
+    for (let page = start; page <= end; page++) {
+      pages.add(page);
+    }
+  }
+
+  if (pages.size === 0) {
+    throw new Error('The page range does not select any pages');
+  }
+
+  return [...pages].sort((a, b) => a - b);
+}
+
+/**
+ * Syntax-only check for use before the page count is known
+ */
+export function isValidPageRange(spec: string): boolean {
+  return spec
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .every((token) => {
+      const match = token.match(/^(\d+)\s*(?:-\s*(\d*))?$/);
+      return !!match && Number(match[1]) >= 1 && (!match[2] || Number(match[2]) >= Number(match[1]));
+    });
+}
@@ -0,0 +1,21 @@
+/**
+ * Split narration into sentences, keeping each sentence's punctuation.
+ * Handles the full-width stops used in Japanese scripts.
+ */
+export function splitSentences(text: string): string[] {
+  // A stop only ends a sentence before whitespace, so numbers like 3.5 stay whole
+  return text
+    .split(/(?<=[.!?]["'”’)\]]*)\s+|(?<=[。！？])/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Append a sentence to a script, separated by a space unless the script
+ * ends in a full-width stop
+ */
+export function appendSentence(script: string, sentence: string): string {
+  const trimmed = script.trimEnd();
+  if (!trimmed) return sentence;
+  return /[。！？]$/.test(trimmed) ? trimmed + sentence : `${trimmed} ${sentence}`;
+}
@@ -0,0 +1,94 @@
+import type { SlideAnalysis } from '../types';
+
+export interface AnalysisParseResult {
+  analysis: SlideAnalysis | null;
+  errors: string[]; // what is wrong with the reply, fed back to the model for repair
+}
+
+/**
+ * Parse and validate the JSON a model returned for a slide. Code fences and
+ * text around the object are tolerated, missing or mistyped fields are not.
+ */
+export function parseSlideAnalysis(reply: string): AnalysisParseResult {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    return { analysis: null, errors: ['The reply does not contain a JSON object'] };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(reply.slice(start, end + 1));
+  } catch (error) {
+    return { analysis: null, errors: [`The JSON is malformed: ${(error as Error).message}`] };
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { analysis: null, errors: ['The reply is not a JSON object'] };
+  }
+
+  const fields = data as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const readString = (name: keyof SlideAnalysis): string => {
+    const value = fields[name];
+    if (typeof value !== 'string' || !value.trim()) {
+      errors.push(`"${name}" must be a non-empty string`);
+      return '';
+    }
+    return value.trim();
+  };
+
+  const title = readString('title');
+  const altText = readString('altText');
+  const narration = readString('narration');
+
+  let keyPoints: string[] = [];
+  if (!Array.isArray(fields.keyPoints) || !fields.keyPoints.every((point) => typeof point === 'string')) {
+    errors.push('"keyPoints" must be an array of strings');
+  } else {
+    keyPoints = fields.keyPoints.map((point: string) => point.trim()).filter(Boolean);
+  }
+
+  if (errors.length > 0) {
+    return { analysis: null, errors };
+  }
+
+  return { analysis: { title, keyPoints, altText, narration }, errors };
+}
+
+/**
+ * The narration decoded so far from a reply that is still streaming, so the
+ * editor can show the script rather than raw JSON
+ */
+export function extractPartialNarration(reply: string): string {
+  const match = /"narration"\s*:\s*"/.exec(reply);
+  if (!match) return '';
+
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '', b: '', f: '', '"': '"', '\\': '\\', '/': '/' };
+  let text = '';
+
+  for (let i = match.index + match[0].length; i < reply.length; i++) {
+    const char = reply[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      text += char;
+      continue;
+    }
+
+    // A trailing backslash or partial \u escape waits for the next chunk
+    const next = reply[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = reply.slice(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      text += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      text += escapes[next] ?? next;
+      i += 1;
+    }
+  }
+
+  return text;
+}
@@ -0,0 +1,9 @@
+import type { Slide } from '../types';
+
+/**
+ * Slides that get their own narration and time in the video: not excluded
+ * by the user and not folded into a build group
+ */
+export function isActiveSlide(slide: Slide): boolean {
+  return !slide.excluded && !slide.mergedInto;
+}
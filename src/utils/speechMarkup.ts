@@ -0,0 +1,131 @@
+/**
+ * Delivery markup in narration scripts:
+ *   [pause] or [pause 1.5s] / [pause 800ms]   a silence
+ *   *words*                                    emphasis
+ *   [spell]API[/spell], [digits]2024[/digits]  read letter by letter / digit by digit
+ *   [slow]...[/slow], [fast]...[/fast]         speaking rate
+ */
+
+import { DIALOGUE_SPEAKERS, stripSpeakerLabels } from './dialogue';
+
+export type ProsodyRate = 'slow' | 'fast';
+export type SayAs = 'characters' | 'digits';
+
+export type SpeechNode =
+  | { type: 'text'; text: string; emphasis: boolean; rate: ProsodyRate | null; sayAs: SayAs | null }
+  | { type: 'pause'; ms: number };
+
+export const DEFAULT_PAUSE_MS = 500;
+const MAX_PAUSE_MS = 10000;
+
+// How much [slow] and [fast] change the slide's rate
+export const RATE_FACTORS: Record<ProsodyRate, number> = { slow: 0.8, fast: 1.2 };
+
+const SAY_AS_TAGS: Record<string, SayAs> = { spell: 'characters', digits: 'digits' };
+
+const MARKUP_PATTERN =
+  /\[pause(?:\s+(\d+(?:\.\d+)?)\s*(ms|s))?\]|\[(\/?)(slow|fast|spell|digits)\]|\*(?=\S)([^*\n]*?\S)\*/gi;
+
+const getPauseMs = (amount: string | undefined, unit: string | undefined): number => {
+  if (!amount) return DEFAULT_PAUSE_MS;
+  const ms = unit?.toLowerCase() === 's' ? parseFloat(amount) * 1000 : parseFloat(amount);
+  return Math.min(Math.round(ms), MAX_PAUSE_MS);
+};
+
+/**
+ * Script as text runs and pauses. Tags close in any order; an unclosed
+ * [slow] lasts to the end of the script. Emphasis holds plain text only.
+ */
+export function parseSpeechMarkup(script: string): SpeechNode[] {
+  const nodes: SpeechNode[] = [];
+  let rate: ProsodyRate | null = null;
+  let sayAs: SayAs | null = null;
+  let lastIndex = 0;
+
+  const pushText = (text: string, emphasis = false) => {
+    if (text) nodes.push({ type: 'text', text, emphasis, rate, sayAs });
+  };
+
+  for (const match of script.matchAll(MARKUP_PATTERN)) {
+    const [token, pauseAmount, pauseUnit, closing, tag, emphasized] = match;
+    pushText(script.slice(lastIndex, match.index));
+    lastIndex = match.index + token.length;
+
+    if (emphasized !== undefined) {
+      pushText(emphasized, true);
+    } else if (tag) {
+      const name = tag.toLowerCase();
+      if (name === 'slow' || name === 'fast') {
+        rate = closing ? null : name;
+      } else {
+        sayAs = closing ? null : SAY_AS_TAGS[name];
+      }
+    } else {
+      nodes.push({ type: 'pause', ms: getPauseMs(pauseAmount, pauseUnit) });
+    }
+  }
+  pushText(script.slice(lastIndex));
+
+  return nodes;
+}
+
+/**
+ * The script as plain text, for word counts, transcripts and subtitles
+ */
+export function stripSpeechMarkup(script: string): string {
+  return script
+    .replace(MARKUP_PATTERN, (_token, _amount, _unit, _closing, _tag, emphasized) => emphasized ?? '')
+    .replace(/[ \t]{2,}/g, ' ')
+    .replace(/[ \t]+$/gm, '')
+    .trim();
+}
+
+/**
+ * Words the voice reads, leaving out markup and speaker labels
+ */
+export function countSpokenWords(script: string): number {
+  return stripSpeakerLabels(stripSpeechMarkup(script), DIALOGUE_SPEAKERS)
+    .split(/\s+/)
+    .filter((word) => word.length > 0).length;
+}
+
+export function hasSpeechMarkup(script: string): boolean {
+  return script.search(MARKUP_PATTERN) !== -1;
+}
+
+/**
+ * Seconds of silence the script's pauses add
+ */
+export function getPauseSeconds(script: string): number {
+  return parseSpeechMarkup(script).reduce((total, node) => total + (node.type === 'pause' ? node.ms / 1000 : 0), 0);
+}
+
+/**
+ * The script cut into plain text and markup tokens, for highlighting
+ */
+export function tokenizeSpeechMarkup(script: string): { text: string; markup: boolean }[] {
+  const tokens: { text: string; markup: boolean }[] = [];
+  let lastIndex = 0;
+
+  for (const match of script.matchAll(MARKUP_PATTERN)) {
+    if (match.index > lastIndex) tokens.push({ text: script.slice(lastIndex, match.index), markup: false });
+    tokens.push({ text: match[0], markup: true });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < script.length) tokens.push({ text: script.slice(lastIndex), markup: false });
+
+  return tokens;
+}
+
+/**
+ * How a say-as run is read by voices without SSML
+ */
+export function spellOut(text: string): string {
+  return [...text.replace(/\s+/g, '')].join(' ');
+}
+
+const XML_ENTITIES: Record<string, string> = { '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' };
+
+export function escapeXml(text: string): string {
+  return text.replace(/[<>&'"]/g, (char) => XML_ENTITIES[char]);
+}
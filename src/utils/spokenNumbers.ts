@@ -0,0 +1,199 @@
+/**
+ * English spoken forms of numbers, dates, times and amounts, so every voice
+ * reads "$1.5M" or "2024-03-15" the same way
+ */
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine',
+  'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen',
+  'seventeen', 'eighteen', 'nineteen',
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES: [number, string][] = [
+  [1e12, 'trillion'],
+  [1e9, 'billion'],
+  [1e6, 'million'],
+  [1e3, 'thousand'],
+];
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+const MONTH_PATTERN =
+  '(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\\.?';
+
+// Symbol → [singular, plural, minor unit singular, minor unit plural]
+const CURRENCIES: Record<string, [string, string, string, string]> = {
+  $: ['dollar', 'dollars', 'cent', 'cents'],
+  '€': ['euro', 'euros', 'cent', 'cents'],
+  '£': ['pound', 'pounds', 'penny', 'pence'],
+  '¥': ['yen', 'yen', '', ''],
+};
+
+const AMOUNT_SCALES: Record<string, string> = {
+  k: 'thousand',
+  thousand: 'thousand',
+  m: 'million',
+  mn: 'million',
+  million: 'million',
+  b: 'billion',
+  bn: 'billion',
+  billion: 'billion',
+  t: 'trillion',
+  tn: 'trillion',
+  trillion: 'trillion',
+};
+
+export function numberToWords(n: number): string {
+  if (n < 0) return `minus ${numberToWords(-n)}`;
+  if (n < 20) return ONES[n];
+  if (n < 100) return TENS[Math.floor(n / 10)] + (n % 10 ? `-${ONES[n % 10]}` : '');
+  if (n < 1000) {
+    return `${ONES[Math.floor(n / 100)]} hundred` + (n % 100 ? ` ${numberToWords(n % 100)}` : '');
+  }
+
+  for (const [value, name] of SCALES) {
+    if (n >= value) {
+      const rest = n % value;
+      return `${numberToWords(Math.floor(n / value))} ${name}` + (rest ? ` ${numberToWords(rest)}` : '');
+    }
+  }
+  return String(n);
+}
+
+export function ordinalToWords(n: number): string {
+  const words = numberToWords(n);
+  const irregular: Record<string, string> = {
+    one: 'first', two: 'second', three: 'third', five: 'fifth',
+    eight: 'eighth', nine: 'ninth', twelve: 'twelfth',
+  };
+  const match = words.match(/([a-z]+)$/);
+  if (!match) return words;
+
+  const last = match[1];
+  const ordinal = irregular[last] || (last.endsWith('y') ? `${last.slice(0, -1)}ieth` : `${last}th`);
+  return words.slice(0, -last.length) + ordinal;
+}
+
+/**
+ * Years are read in pairs: 1999 "nineteen ninety-nine", 2024 "twenty
+ * twenty-four", but 2005 "two thousand five"
+ */
+export function yearToWords(year: number): string {
+  if (year < 1000 || year > 2999 || (year >= 2000 && year < 2010)) return numberToWords(year);
+
+  const high = Math.floor(year / 100);
+  const low = year % 100;
+  if (low === 0) return `${numberToWords(high)} hundred`;
+  return `${numberToWords(high)} ${low < 10 ? `oh ${ONES[low]}` : numberToWords(low)}`;
+}
+
+/**
+ * "1,234.56" → "one thousand two hundred thirty-four point five six"
+ */
+export function decimalToWords(value: string): string {
+  const [whole, fraction] = value.replace(/,/g, '').split('.');
+  const words = numberToWords(Number(whole));
+  if (!fraction) return words;
+  return `${words} point ${fraction.split('').map((digit) => ONES[Number(digit)]).join(' ')}`;
+}
+
+function monthName(value: string): string {
+  const prefix = value.slice(0, 3).toLowerCase();
+  return MONTHS.find((month) => month.toLowerCase().startsWith(prefix)) || value;
+}
+
+function amountToWords(symbol: string, value: string, scale?: string): string {
+  const [singular, plural, minor, minorPlural] = CURRENCIES[symbol];
+  const number = value.replace(/,/g, '');
+  const scaleName = scale ? AMOUNT_SCALES[scale.toLowerCase()] : undefined;
+
+  if (scaleName) return `${decimalToWords(number)} ${scaleName} ${plural}`;
+
+  const [whole, fraction = ''] = number.split('.');
+  const units = Number(whole);
+  // Without a minor unit (yen) or two decimals the fraction is read as digits
+  if (fraction && (fraction.length !== 2 || !minor)) return `${decimalToWords(number)} ${plural}`;
+  const cents = Number(fraction);
+
+  const main = `${numberToWords(units)} ${units === 1 ? singular : plural}`;
+  if (!cents) return main;
+  const change = `${numberToWords(cents)} ${cents === 1 ? minor : minorPlural}`;
+  return units ? `${main} and ${change}` : change;
+}
+
+function timeToWords(hours: string, minutes: string, period?: string): string {
+  const hour = numberToWords(Number(hours));
+  const minute = Number(minutes);
+  const suffix = period ? ` ${period.replace(/\./g, '').toLowerCase().split('').join(' ')}` : '';
+
+  if (minute === 0) return period ? `${hour}${suffix}` : `${hour} o'clock`;
+  return `${hour} ${minute < 10 ? `oh ${ONES[minute]}` : numberToWords(minute)}${suffix}`;
+}
+
+/**
+ * Rewrite digits in English narration as the words a speaker would say
+ */
+export function normalizeNumbers(text: string): string {
+  // Digits glued to letters (COVID-19, H2O, 4K, v2.0) are names and stay as
+  // written, and so are hyphenated digits (555-1234, 2020-2024)
+  const standalone = (pattern: string) =>
+    new RegExp(`(?<![\\p{L}\\d.,]|[\\p{L}\\d]-)${pattern}(?![\\p{L}\\d]|-\\d)`, 'gu');
+
+  return (
+    text
+      // 2024-03-15
+      .replace(standalone('(\\d{4})-(\\d{2})-(\\d{2})'), (match, year, month, day) =>
+        Number(month) >= 1 && Number(month) <= 12
+          ? `${MONTHS[Number(month) - 1]} ${ordinalToWords(Number(day))}, ${yearToWords(Number(year))}`
+          : match
+      )
+      // March 15, 2024 / March 15th
+      .replace(
+        new RegExp(`\\b${MONTH_PATTERN} (\\d{1,2})(?:st|nd|rd|th)?(?:, (\\d{4}))?(?!\\d)`, 'g'),
+        (_match, month, day, year) =>
+          `${monthName(month)} ${ordinalToWords(Number(day))}` + (year ? `, ${yearToWords(Number(year))}` : '')
+      )
+      // 15 March 2024
+      .replace(
+        new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)? ${MONTH_PATTERN}(?: (\\d{4}))?(?!\\d)`, 'g'),
+        (_match, day, month, year) =>
+          `the ${ordinalToWords(Number(day))} of ${monthName(month)}` + (year ? ` ${yearToWords(Number(year))}` : '')
+      )
+      // March 2024
+      .replace(new RegExp(`\\b${MONTH_PATTERN} (\\d{4})(?!\\d)`, 'g'), (_match, month, year) =>
+        `${monthName(month)} ${yearToWords(Number(year))}`
+      )
+      // $1,234.50 / €2.5M / £3 billion
+      .replace(
+        /([$€£¥])\s?(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)(?:\s?(k|m|mn|b|bn|t|tn|thousand|million|billion|trillion)\b)?/gi,
+        (_match, symbol, value, scale) => amountToWords(symbol, value, scale)
+      )
+      // 10:30 / 9:00 am
+      .replace(
+        /\b([01]?\d|2[0-3]):([0-5]\d)(?:\s?([ap]\.?m\.?)(?![\p{L}]))?/giu,
+        (_match, hours, minutes, period) => timeToWords(hours, minutes, period)
+      )
+      // 45% / 2.5 % / -3%
+      .replace(
+        standalone('([-−]?)(\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?)\\s?%'),
+        (_match, sign, value) => `${sign ? 'minus ' : ''}${decimalToWords(value)} percent`
+      )
+      // 1st, 22nd, 103rd
+      .replace(/\b(\d+)(?:st|nd|rd|th)\b/g, (_match, value) => ordinalToWords(Number(value)))
+      // Q3 2024, H1 2025
+      .replace(/\b(Q[1-4]|H[12]) (\d{4})(?!\d|-\d)/g, (_match, period, year) =>
+        `${period} ${yearToWords(Number(year))}`
+      )
+      // in 1999, since 2010, founded 1905
+      .replace(
+        /\b(in|since|by|until|from|before|after|during|of|founded|established) (1[1-9]\d\d|20\d\d)(?!\d|-\d)/gi,
+        (_match, preposition, year) => `${preposition} ${yearToWords(Number(year))}`
+      )
+      // 1,234 / 3.14 / 42 / -5
+      .replace(standalone('([-−]?)(\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?)'), (match, sign, value) =>
+        value.replace(/,/g, '').length > 15 ? match : `${sign ? 'minus ' : ''}${decimalToWords(value)}`
+      )
+  );
+}
@@ -0,0 +1,224 @@
+/**
+ * PDF Rasterizer Worker - Renders PDF pages off the main thread
+ * Runs the bundled pdf.js in the worker, renders each requested page to an
+ * OffscreenCanvas and posts back a PNG Blob with the page's text layer
+ * and annotations.
+ *
+ * Protocol: the main thread sends `open`, the worker answers `opened` with
+ * the page count and bookmark sections, the main thread sends `render` with the selected pages and
+ * the worker posts one `page` message per page followed by `done`.
+ */
+
+import {
+  classifyOpenError,
+  openPDF,
+  renderToContext,
+  type PDFDocumentProxy,
+  type PDFOpenFailure,
+  type PDFPageProxy,
+} from '../services/pdfjs';
+import type { DeckSection, SlideAnnotation, SlideLink } from '../types';
+
+export type PDFWorkerRequest =
+  | { type: 'open'; data: ArrayBuffer; password?: string }
+  | { type: 'render'; pages: number[]; scale: number; maxWidth: number };
+
+export type PDFWorkerResponse =
+  | { type: 'opened'; numPages: number; sections: DeckSection[] }
+  | {
+      type: 'page';
+      pageNumber: number;
+      imageBlob: Blob;
+      textContent: string;
+      links: SlideLink[];
+      annotations: SlideAnnotation[];
+    }
+  | { type: 'done' }
+  | { type: 'error'; message: string; failure?: PDFOpenFailure };
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<PDFWorkerRequest>) => void) | null;
+  postMessage: (message: PDFWorkerResponse) => void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+// Subset of the annotation data pdf.js returns that we read
+interface PDFAnnotation {
+  subtype: string;
+  url?: string;
+  dest?: string | unknown[] | null;
+  contentsObj?: { str: string };
+  titleObj?: { str: string };
+}
+
+let pdf: PDFDocumentProxy | null = null;
+
+scope.onmessage = async (event) => {
+  try {
+    const request = event.data;
+
+    if (request.type === 'open') {
+      try {
+        pdf = await openPDF(request.data, request.password);
+      } catch (error) {
+        scope.postMessage({
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Failed to open PDF',
+          failure: classifyOpenError(error) || undefined,
+        });
+        return;
+      }
+      scope.postMessage({
+        type: 'opened',
+        numPages: pdf.numPages,
+        sections: await extractSections(pdf),
+      });
+    } else if (request.type === 'render') {
+      if (!pdf) throw new Error('No PDF document is open');
+
+      for (const pageNumber of request.pages) {
+        scope.postMessage(await renderPage(pdf, pageNumber, request.scale, request.maxWidth));
+      }
+
+      scope.postMessage({ type: 'done' });
+    }
+  } catch (error) {
+    scope.postMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Failed to render PDF',
+    });
+  }
+};
+
+/**
+ * Map the top level of the bookmark outline to the pages it points at
+ */
+async function extractSections(doc: PDFDocumentProxy): Promise<DeckSection[]> {
+  const outline = await doc.getOutline().catch(() => null);
+  if (!outline) return [];
+
+  const sections: DeckSection[] = [];
+
+  for (const item of outline) {
+    const title = item.title.trim();
+    const pageNumber = item.dest ? await resolveDestination(doc, item.dest) : undefined;
+    if (title && pageNumber) {
+      sections.push({ title, pageNumber });
+    }
+  }
+
+  return sections.sort((a, b) => a.pageNumber - b.pageNumber);
+}
+
+async function renderPage(
+  doc: PDFDocumentProxy,
+  pageNumber: number,
+  scale: number,
+  maxWidth: number
+): Promise<PDFWorkerResponse> {
+  const page = await doc.getPage(pageNumber);
+
+  // Cap the output width so wide decks do not produce huge bitmaps
+  const baseViewport = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({
+    scale: Math.min(scale, maxWidth / baseViewport.width),
+  });
+
+  const canvas = new OffscreenCanvas(Math.round(viewport.width), Math.round(viewport.height));
+  const context = canvas.getContext('2d');
+
+  if (!context) {
+    throw new Error(`Failed to get canvas context for page ${pageNumber}`);
+  }
+
+  await renderToContext(page, context, viewport.scale);
+  const imageBlob = await canvas.convertToBlob({ type: 'image/png' });
+
+  const textContent = await extractText(page);
+  const { links, annotations } = await extractAnnotations(doc, page);
+
+  page.cleanup();
+
+  return { type: 'page', pageNumber, imageBlob, textContent, links, annotations };
+}
+
+/**
+ * Join the page's text layer into plain text, keeping pdf.js line breaks
+ */
+async function extractText(page: PDFPageProxy): Promise<string> {
+  const { items } = await page.getTextContent();
+  let text = '';
+
+  for (const item of items) {
+    if (!('str' in item)) continue;
+    text += item.str;
+    text += item.hasEOL ? '\n' : ' ';
+  }
+
+  return text
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter((line) => line.length > 0)
+    .join('\n');
+}
+
+/**
+ * Collect link targets and sticky-note/popup comments from the page
+ */
+async function extractAnnotations(
+  doc: PDFDocumentProxy,
+  page: PDFPageProxy
+): Promise<{ links: SlideLink[]; annotations: SlideAnnotation[] }> {
+  const links: SlideLink[] = [];
+  const annotations: SlideAnnotation[] = [];
+  const seenNotes = new Set<string>();
+
+  const pageAnnotations: PDFAnnotation[] = await page.getAnnotations();
+
+  for (const annotation of pageAnnotations) {
+    if (annotation.subtype === 'Link') {
+      if (annotation.url) {
+        links.push({ url: annotation.url });
+      } else if (annotation.dest) {
+        const targetPage = await resolveDestination(doc, annotation.dest);
+        if (targetPage) {
+          links.push({ targetPage });
+        }
+      }
+      continue;
+    }
+
+    if (!['Text', 'FreeText', 'Popup'].includes(annotation.subtype)) continue;
+
+    // Popups usually repeat their parent's contents, so skip duplicates
+    const text = annotation.contentsObj?.str?.trim();
+    if (!text || seenNotes.has(text)) continue;
+    seenNotes.add(text);
+
+    annotations.push({
+      subtype: annotation.subtype,
+      author: annotation.titleObj?.str?.trim() || undefined,
+      text,
+    });
+  }
+
+  return { links, annotations };
+}
+
+async function resolveDestination(
+  doc: PDFDocumentProxy,
+  dest: string | unknown[]
+): Promise<number | undefined> {
+  try {
+    const explicitDest = typeof dest === 'string' ? await doc.getDestination(dest) : dest;
+    const ref = explicitDest?.[0];
+    if (ref === undefined || ref === null) return undefined;
+    // Destinations point at a page either by reference or by index
+    if (typeof ref === 'number') return ref + 1;
+    return (await doc.getPageIndex(ref as Parameters<PDFDocumentProxy['getPageIndex']>[0])) + 1;
+  } catch (error) {
+    console.warn('[PDFRasterizer] Could not resolve link destination:', error);
+    return undefined;
+  }
+}